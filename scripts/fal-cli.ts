@@ -0,0 +1,228 @@
+#!/usr/bin/env node
+// ============================================================================
+// FAL CLI
+// Sync, refresh and inspect FAL models from the command line
+//
+//   npx tsx scripts/fal-cli.ts sync [--full] [--filter <glob>] [--dry-run]
+//   npx tsx scripts/fal-cli.ts params [model...] [--filter <glob>] [--concurrency <n>] [--dry-run]
+//   npx tsx scripts/fal-cli.ts inspect <model>
+//   npx tsx scripts/fal-cli.ts stats [--filter <glob>]
+//   npx tsx scripts/fal-cli.ts credits [--dry-run]
+//
+// --json prints the command result as JSON on stdout; progress goes to stderr
+// ============================================================================
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+config({ path: resolve(process.cwd(), '.env.local') });
+
+import { createModelFilter } from '../src/lib/fal/model-filter';
+import { syncFalModels } from '../src/lib/services/fal-sync';
+import { fetchModelParameters, refreshModelParameters } from '../src/lib/services/model-parameters';
+import { getCatalogStats } from '../src/lib/services/model-catalog';
+import { activateDueCreditPricingConfig } from '../src/lib/services/credit-pricing';
+import { recomputeCreditCosts } from '../src/lib/services/credit-recompute';
+
+const USAGE = `Usage: fal-cli <command> [options]
+
+Commands:
+  sync                 Sync models, parameters and pricing from FAL (incremental)
+  params [model...]    Re-fetch schemas and replace stored parameters
+  inspect <model>      Show the parameters parsed from a model's schema
+  stats                Counts by task type, models missing pricing or parameters
+  credits              Activate a due credit pricing version and recompute credit costs
+
+Options:
+  --full               sync: rewrite every model, not just changed ones
+  --filter <glob>      Only models matching comma-separated globs, e.g. "fal-ai/flux*"
+  --concurrency <n>    params: schema fetches in flight (default 4)
+  --dry-run            Report what would change without writing
+  --json               Print the result as JSON
+  -h, --help           Show this help
+`;
+
+type Args = {
+  positionals: string[];
+  full: boolean;
+  filter?: string;
+  concurrency?: number;
+  dryRun: boolean;
+  json: boolean;
+};
+
+const stdout = console.log.bind(console);
+
+/**
+ * Print a command result: JSON if requested, otherwise via the pretty printer
+ */
+function output(args: Args, result: unknown, pretty: () => void) {
+  if (args.json) {
+    stdout(JSON.stringify(result, null, 2));
+  } else {
+    pretty();
+  }
+}
+
+async function runSync(args: Args) {
+  const result = await syncFalModels({
+    full: args.full,
+    modelFilter: args.filter,
+    dryRun: args.dryRun,
+  });
+  output(args, result, () => {
+    // syncFalModels already logs its summary (or the plan, for dry runs)
+  });
+  if (result.errors.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function runParams(args: Args) {
+  const result = await refreshModelParameters({
+    modelIds: args.positionals.length > 0 ? args.positionals : undefined,
+    filter: args.filter ? createModelFilter(args.filter) : undefined,
+    concurrency: args.concurrency,
+    dryRun: args.dryRun,
+  });
+
+  output(args, result, () => {
+    console.log(`\n✅ Parameter refresh complete${args.dryRun ? ' (dry run)' : ''}`);
+    console.log(`   Updated: ${result.updated.length}`);
+    console.log(`   Skipped: ${result.skipped.length}`);
+    console.log(`   Failed: ${result.failed.length}`);
+  });
+  if (result.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function runInspect(args: Args) {
+  const [modelId] = args.positionals;
+  if (!modelId) {
+    throw new Error('inspect requires a model id');
+  }
+
+  const parameters = await fetchModelParameters(modelId);
+  if (!parameters) {
+    throw new Error(`No input schema found for ${modelId}`);
+  }
+
+  output(args, { modelId, parameters }, () => {
+    console.log(`📋 ${modelId}: ${parameters.length} parameters\n`);
+    console.table(parameters.map(param => ({
+      name: param.name,
+      type: param.type,
+      required: param.required,
+      default: param.defaultValue === undefined ? '' : JSON.stringify(param.defaultValue),
+      range: param.minValue !== undefined || param.maxValue !== undefined
+        ? `${param.minValue ?? ''}..${param.maxValue ?? ''}`
+        : '',
+      values: param.allowedValues?.join(', ') ?? '',
+      group: param.uiGroup ?? '',
+    })));
+  });
+}
+
+async function runStats(args: Args) {
+  const stats = await getCatalogStats({
+    filter: args.filter ? createModelFilter(args.filter) : undefined,
+  });
+
+  output(args, stats, () => {
+    console.log(`📦 Models: ${stats.total} (${stats.active} active, ${stats.inactive} inactive)\n`);
+    console.log('📊 By task type:');
+    for (const [taskType, count] of Object.entries(stats.byTaskType).sort()) {
+      console.log(`   ${taskType.padEnd(12)} ${count}`);
+    }
+    console.log(`\n💰 Missing pricing: ${stats.missingPricing.length}`);
+    stats.missingPricing.forEach(id => console.log(`   ${id}`));
+    console.log(`\n❓ Unknown pricing: ${stats.unknownPricing.length}`);
+    stats.unknownPricing.forEach(id => console.log(`   ${id}`));
+    console.log(`\n📋 Missing parameters: ${stats.missingParameters.length}`);
+    stats.missingParameters.forEach(id => console.log(`   ${id}`));
+  });
+}
+
+async function runCredits(args: Args) {
+  if (!args.dryRun) {
+    const activated = await activateDueCreditPricingConfig();
+    if (activated) {
+      console.log(`🔀 Activated credit pricing v${activated.version}`);
+    }
+  }
+
+  const result = await recomputeCreditCosts({ dryRun: args.dryRun });
+
+  output(args, result, () => {
+    console.log(`\n✅ Credit costs recomputed with v${result.version}${args.dryRun ? ' (dry run)' : ''}`);
+    console.log(`   Examined: ${result.examined}`);
+    console.log(`   Changed: ${result.changes.length}`);
+    result.changes.forEach(change =>
+      console.log(`   ${change.modelId}: ${change.oldCredits ?? '—'} → ${change.newCredits}`)
+    );
+    console.log(`   Skipped (no price): ${result.skipped.length}`);
+    console.log(`   Errors: ${result.errors.length}`);
+  });
+  if (result.errors.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+const COMMANDS: Record<string, (args: Args) => Promise<void>> = {
+  sync: runSync,
+  params: runParams,
+  inspect: runInspect,
+  stats: runStats,
+  credits: runCredits,
+};
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      full: { type: 'boolean', default: false },
+      filter: { type: 'string' },
+      concurrency: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  const run = command ? COMMANDS[command] : undefined;
+
+  if (values.help || !run) {
+    stdout(USAGE);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  const concurrency = values.concurrency === undefined ? undefined : Number(values.concurrency);
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new Error(`--concurrency must be a positive integer, got "${values.concurrency}"`);
+  }
+
+  const args: Args = {
+    positionals: rest,
+    full: values.full,
+    filter: values.filter,
+    concurrency,
+    dryRun: values['dry-run'],
+    json: values.json,
+  };
+
+  // Keep stdout clean for the JSON result
+  if (args.json) {
+    console.log = console.error.bind(console);
+    console.table = (data: unknown) => console.error(data);
+  }
+
+  await run(args);
+}
+
+main().catch(error => {
+  console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,1119 @@
+#!/usr/bin/env node
+// ============================================================================
+// FAL HARNESS
+// Runs FalApiClient and syncFalModels end to end against recorded FAL
+// responses (scripts/harness/fixtures) and an in-memory repository.
+// Needs no network, FAL key or Supabase project.
+//
+//   npm test -- [--verbose] [name filter]
+// ============================================================================
+
+import assert from 'node:assert/strict';
+import { FalApiClient } from '../src/lib/fal/api-client';
+import {
+  extractEndpointsFromOpenAPI,
+  extractInputSchemaFromOpenAPI,
+  extractOutputSchemaFromOpenAPI,
+  resolveSchema,
+} from '../src/lib/fal/openapi';
+import { parseRetryAfter } from '../src/lib/fal/scheduler';
+import { estimateRequestPrice, parseBillingUnit, priceRange } from '../src/lib/fal/pricing';
+import { normalizeFalOutput } from '../src/lib/fal/media-output';
+import { classifyModel } from '../src/lib/fal/task-classifier';
+import { parametersFromRows, validateParameters } from '../src/lib/fal/parameter-validator';
+import {
+  FalAuthError,
+  FalInvalidResponseError,
+  FalNotFoundError,
+  FalServerError,
+  FalTimeoutError,
+} from '../src/lib/fal/errors';
+import { syncFalModels } from '../src/lib/services/fal-sync';
+import { CostEstimationError, quoteFromPricing } from '../src/lib/services/cost-estimation';
+import { creditCost, CreditPricingError, type CreditPricingConfig } from '../src/lib/services/credit-pricing';
+import { recomputeCreditCosts } from '../src/lib/services/credit-recompute';
+import { toParameterRecords } from '../src/lib/services/model-parameters';
+import {
+  clearTaskOverride,
+  getTaskOverride,
+  setTaskOverride,
+  TaskOverrideValidationError,
+} from '../src/lib/services/task-overrides';
+import {
+  curateParameters,
+  isModelExposed,
+  stripHiddenParams,
+  validateCuration,
+  visibleParameters,
+} from '../src/lib/services/model-curation';
+import { MemoryModelRepository } from '../src/lib/repositories/memory-model-repository';
+import type { FalClientOptions, ModelParameterRow, ParsedParameter, TaskType } from '../src/lib/fal/types';
+import {
+  createFakeFal,
+  FAKE_API_URL,
+  FAKE_QUEUE_URL,
+  DEFAULT_QUEUE_RESULT,
+  FAKE_SCHEMA_URL,
+  RECORDED_PAGES,
+  type FakeFal,
+  type FakeFalOptions,
+} from './harness/fake-fal';
+
+const FLUX = 'fal-ai/flux/dev/image-to-image';
+const KLING = 'fal-ai/kling-video/v1/standard/image-to-video';
+const TTS = 'fal-ai/playai/tts/v3';
+const LLM = 'fal-ai/any-llm';
+
+const IMAGE_PARAMETERS: ParsedParameter[] = [
+  { name: 'prompt', type: 'string', required: true },
+  { name: 'num_images', type: 'integer', required: false, defaultValue: 1, minValue: 1, maxValue: 4 },
+  { name: 'guidance_scale', type: 'number', required: false, minValue: 0, maxValue: 20 },
+  { name: 'image_size', type: 'string', required: false, allowedValues: ['square', 'landscape'] },
+  { name: 'enable_safety_checker', type: 'boolean', required: false, defaultValue: true },
+];
+
+function creditPricing(overrides: Partial<CreditPricingConfig> = {}): CreditPricingConfig {
+  return {
+    version: 1,
+    cost_per_credit_usd: 0.025,
+    task_type_multipliers: {},
+    model_multipliers: {},
+    min_credits: 1,
+    task_type_min_credits: {},
+    is_active: true,
+    effective_from: '2026-01-01T00:00:00.000Z',
+    effective_until: null,
+    note: null,
+    ...overrides,
+  };
+}
+
+function createClient(fake: FakeFal, options: FalClientOptions = {}): FalApiClient {
+  return new FalApiClient('harness-key', {
+    baseUrl: FAKE_API_URL,
+    queueUrl: FAKE_QUEUE_URL,
+    schemaUrl: FAKE_SCHEMA_URL,
+    fetch: fake.fetch,
+    requestsPerSecond: 0,
+    retryBaseDelay: 1,
+    ...options,
+  });
+}
+
+/**
+ * Walk a path into a parsed JSON value; undefined once the path runs out
+ */
+function at(value: unknown, ...path: Array<string | number>): unknown {
+  let current = value;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
+
+function setup(options: FakeFalOptions = {}) {
+  const fake = createFakeFal(options);
+  const client = createClient(fake);
+  const repository = new MemoryModelRepository({ creditRate: 0.025 });
+  return { fake, client, repository };
+}
+
+const scenarios: Array<{ name: string; run: () => Promise<void> }> = [
+  // --------------------------------------------------------------------------
+  // FalApiClient
+  // --------------------------------------------------------------------------
+  {
+    name: 'fetchModels follows cursors across pages',
+    run: async () => {
+      const { fake, client } = setup();
+      const models = await client.fetchModels();
+
+      assert.deepEqual(models.map(m => m.endpoint_id), [FLUX, KLING, TTS, LLM]);
+      const pages = fake.requestsTo('/v1/models').map(r => r.url.searchParams.get('cursor'));
+      assert.deepEqual(pages, [null, 'cursor-2']);
+      assert.ok(models[0].openapi, 'expanded models carry their OpenAPI document');
+    },
+  },
+  {
+    name: 'fetchModels retries without expand when the API rejects it',
+    run: async () => {
+      const { fake, client } = setup({ rejectExpand: true });
+      const models = await client.fetchModels();
+
+      assert.equal(models.length, 4);
+      assert.ok(models.every(m => !m.openapi));
+      const expands = fake.requestsTo('/v1/models').map(r => r.url.searchParams.get('expand'));
+      assert.deepEqual(expands, ['openapi-3.0', null, null]);
+    },
+  },
+  {
+    name: 'fetchPricing backs off on 429 and retries the batch',
+    run: async () => {
+      const { fake, client } = setup({ pricingFailures: [429, 429] });
+      const { prices } = await client.fetchPricing([FLUX, KLING, TTS, LLM]);
+
+      assert.equal(prices.length, 3);
+      assert.equal(fake.requestsTo('/v1/models/pricing').length, 3);
+    },
+  },
+  {
+    name: 'fetchPricing gives up after repeated 429s',
+    run: async () => {
+      const { client } = setup({ pricingFailures: [429, 429, 429, 429] });
+      await assert.rejects(client.fetchPricing([FLUX]), (error: unknown) => {
+        assert.equal((error as FalServerError).status, 429);
+        return true;
+      });
+    },
+  },
+  {
+    name: 'fetchPricing bisects a batch the API answers with 404',
+    run: async () => {
+      const { fake, client } = setup({ unknownPricingIds: [LLM] });
+      const { prices, unknownEndpointIds } = await client.fetchPricing([FLUX, KLING, TTS, LLM]);
+
+      assert.deepEqual(prices.map(p => p.endpoint_id).sort(), [FLUX, KLING]);
+      assert.deepEqual(unknownEndpointIds, [LLM]);
+      // [4] -> [2] ok + [2] 404 -> [1] ok + [1] 404
+      assert.equal(fake.requestsTo('/v1/models/pricing').length, 5);
+    },
+  },
+  {
+    name: 'fetchPricing sends endpoints in batches of 50',
+    run: async () => {
+      const { fake, client } = setup();
+      const ids = Array.from({ length: 120 }, (_, i) => `fal-ai/model-${i}`);
+      await client.fetchPricing(ids);
+
+      const sizes = fake.requestsTo('/v1/models/pricing').map(r => r.url.searchParams.getAll('endpoint_id').length);
+      assert.deepEqual(sizes, [50, 50, 20]);
+    },
+  },
+
+  {
+    name: 'pricing batches run in parallel up to the concurrency limit',
+    run: async () => {
+      const fake = createFakeFal({ latency: 20 });
+      const client = createClient(fake, { concurrency: 3 });
+      const ids = Array.from({ length: 300 }, (_, i) => `fal-ai/model-${i}`);
+      await client.fetchPricing(ids);
+
+      assert.equal(fake.requestsTo('/v1/models/pricing').length, 6);
+      assert.equal(fake.maxInFlight, 3);
+    },
+  },
+  {
+    name: 'Retry-After takes precedence over exponential backoff',
+    run: async () => {
+      const fake = createFakeFal({ pricingFailures: [429], retryAfter: '0' });
+      // A 10s backoff would stall the scenario if Retry-After were ignored
+      const client = createClient(fake, { retryBaseDelay: 10_000 });
+      const started = Date.now();
+      const { prices } = await client.fetchPricing([FLUX]);
+
+      assert.equal(prices.length, 1);
+      assert.ok(Date.now() - started < 1000);
+      assert.equal(parseRetryAfter('2'), 2000);
+      assert.equal(parseRetryAfter(new Date(Date.now() + 5000).toUTCString(), Date.now()) !== null, true);
+      assert.equal(parseRetryAfter('soon'), null);
+    },
+  },
+  {
+    name: '5xx responses are retried for GET requests',
+    run: async () => {
+      const { fake, client } = setup({ pricingFailures: [503] });
+      const { prices } = await client.fetchPricing([FLUX]);
+
+      assert.equal(prices.length, 1);
+      assert.equal(fake.requestsTo('/v1/models/pricing').length, 2);
+    },
+  },
+  {
+    name: 'slow requests time out',
+    run: async () => {
+      const fake = createFakeFal({ latency: 200 });
+      const client = createClient(fake, { timeout: 20, maxRetries: 1 });
+
+      await assert.rejects(client.fetchModels(), FalTimeoutError);
+      assert.equal(fake.requestsTo('/v1/models').length, 2);
+    },
+  },
+  {
+    name: 'queued requests move from IN_QUEUE to COMPLETED under the app id',
+    run: async () => {
+      const { fake, client } = setup({ queuePolls: 2 });
+      const { request_id } = await client.submit(FLUX, { prompt: 'a cat' });
+
+      assert.equal((await client.getStatus(FLUX, request_id)).status, 'IN_QUEUE');
+      assert.equal((await client.getStatus(FLUX, request_id)).status, 'IN_PROGRESS');
+      assert.equal((await client.getStatus(FLUX, request_id)).status, 'COMPLETED');
+      assert.deepEqual(await client.getResult(FLUX, request_id), DEFAULT_QUEUE_RESULT);
+
+      // Only the submit goes to the full endpoint path; status and result
+      // live under the owner/alias app id
+      assert.equal(fake.requestsTo(`/${FLUX}`).length, 1);
+      assert.deepEqual(
+        fake.requestsTo('/fal-ai/flux/requests/').map(request => `${request.method} ${request.url.pathname}`),
+        [
+          `GET /fal-ai/flux/requests/${request_id}/status`,
+          `GET /fal-ai/flux/requests/${request_id}/status`,
+          `GET /fal-ai/flux/requests/${request_id}/status`,
+          `GET /fal-ai/flux/requests/${request_id}`,
+        ]
+      );
+    },
+  },
+  {
+    name: 'run() polls to completion and collects logs across polls',
+    run: async () => {
+      const logs = [
+        { message: 'Loading model', timestamp: '2026-01-01T00:00:00.000Z' },
+        { message: 'Generating', timestamp: '2026-01-01T00:00:01.000Z' },
+        { message: 'Uploading output', timestamp: '2026-01-01T00:00:02.000Z' },
+      ];
+      const { fake, client } = setup({ queuePolls: 2, queueLogs: logs, queueResult: { text: 'done' } });
+
+      const statuses: string[] = [];
+      const result = await client.run(FLUX, { prompt: 'a cat' }, {
+        pollInterval: 1,
+        logs: true,
+        onStatus: status => {
+          statuses.push(status.status);
+        },
+      });
+
+      assert.deepEqual(statuses, ['IN_QUEUE', 'IN_PROGRESS', 'COMPLETED']);
+      assert.deepEqual(result, { requestId: 'request-1', data: { text: 'done' }, logs });
+      const polls = fake.requestsTo('/fal-ai/flux/requests/request-1/status');
+      assert.equal(polls.length, 3);
+      assert.ok(polls.every(request => request.url.searchParams.get('logs') === '1'));
+    },
+  },
+  {
+    name: 'cancel stops pending requests and reports finished ones as ALREADY_COMPLETED',
+    run: async () => {
+      const { fake, client } = setup({ queuePolls: 1 });
+
+      const pending = await client.submit(FLUX, { prompt: 'a cat' });
+      assert.deepEqual(await client.cancel(FLUX, pending.request_id), { status: 'CANCELLATION_REQUESTED' });
+      assert.deepEqual(fake.cancelled, [pending.request_id]);
+
+      // FAL answers 400 once the request has finished
+      const finished = await client.submit(FLUX, { prompt: 'a dog' });
+      await client.waitForResult(FLUX, finished.request_id, { pollInterval: 1 });
+      assert.deepEqual(await client.cancel(FLUX, finished.request_id), { status: 'ALREADY_COMPLETED' });
+      assert.deepEqual(fake.cancelled, [pending.request_id]);
+
+      assert.deepEqual(
+        fake.requests.filter(request => request.method === 'PUT').map(request => request.url.pathname),
+        [
+          `/fal-ai/flux/requests/${pending.request_id}/cancel`,
+          `/fal-ai/flux/requests/${finished.request_id}/cancel`,
+        ]
+      );
+    },
+  },
+  {
+    name: 'queue timeouts and submits without a request_id throw typed errors',
+    run: async () => {
+      const { client } = setup();
+      const { request_id } = await client.submit(FLUX, { prompt: 'a cat' });
+
+      await assert.rejects(
+        client.waitForResult(FLUX, request_id, { timeout: 0, pollInterval: 1 }),
+        FalTimeoutError
+      );
+
+      const malformed = createClient(createFakeFal({ queueSubmitResponse: { status: 'IN_QUEUE' } }));
+      await assert.rejects(malformed.submit(FLUX, { prompt: 'a cat' }), FalInvalidResponseError);
+    },
+  },
+
+  // --------------------------------------------------------------------------
+  // Schema extraction
+  // --------------------------------------------------------------------------
+  {
+    name: 'input schema is extracted through a component $ref',
+    run: async () => {
+      const { client } = setup();
+      const schema = extractInputSchemaFromOpenAPI(await client.fetchModelSchema(FLUX));
+
+      assert.deepEqual(at(schema, 'required'), ['image_url', 'prompt']);
+      assert.equal(at(schema, 'properties', 'strength', 'maximum'), 1);
+    },
+  },
+  {
+    name: 'output schema comes from the queue result route with nested $refs inlined',
+    run: async () => {
+      const { client } = setup();
+      const openapi = await client.fetchModelSchema(FLUX);
+
+      const endpoints = extractEndpointsFromOpenAPI(openapi);
+      assert.deepEqual(endpoints.map(e => e.path), [`/${FLUX}`], 'the result route is not an endpoint');
+
+      const output = extractOutputSchemaFromOpenAPI(openapi, FLUX);
+      assert.deepEqual(at(output, 'required'), ['images']);
+      assert.equal(at(output, 'properties', 'images', 'items', 'properties', 'url', 'type'), 'string');
+    },
+  },
+  {
+    name: 'allOf merges, Optional unions collapse and cycles stay finite',
+    run: async () => {
+      const document = {
+        components: {
+          schemas: {
+            Base: { type: 'object', properties: { seed: { type: 'integer' } }, required: ['seed'] },
+            ImageSize: { type: 'object', properties: { width: { type: 'integer' } } },
+            Node: { type: 'object', properties: { child: { $ref: '#/components/schemas/Node' } } },
+          },
+        },
+      };
+      const schema = resolveSchema({
+        allOf: [{ $ref: '#/components/schemas/Base' }],
+        properties: {
+          prompt: { type: 'string' },
+          image_size: {
+            anyOf: [{ $ref: '#/components/schemas/ImageSize' }, { type: 'string', enum: ['square_hd'] }],
+            title: 'Image Size',
+          },
+          mask_url: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+          tree: { $ref: '#/components/schemas/Node' },
+        },
+        required: ['prompt'],
+      }, document);
+
+      const properties = at(schema, 'properties') as Record<string, unknown>;
+      assert.deepEqual(Object.keys(properties).sort(), ['image_size', 'mask_url', 'prompt', 'seed', 'tree']);
+      assert.deepEqual((schema.required as string[]).sort(), ['prompt', 'seed']);
+      assert.equal(at(properties, 'image_size', 'anyOf', 'length'), 2);
+      assert.equal(at(properties, 'image_size', 'anyOf', 0, 'properties', 'width', 'type'), 'integer');
+      assert.deepEqual(properties.mask_url, { type: 'string', nullable: true });
+      assert.deepEqual(at(properties, 'tree', 'properties', 'child'), { $ref: '#/components/schemas/Node' });
+    },
+  },
+  {
+    name: 'the model endpoint is picked out of multi-endpoint documents',
+    run: async () => {
+      const body = (title: string) => ({
+        requestBody: { content: { 'application/json': { schema: { type: 'object', title } } } },
+      });
+      const openapi = {
+        paths: {
+          '/fal-ai/app': { post: body('Default') },
+          '/fal-ai/app/requests/{request_id}/cancel': { put: {} },
+          '/fal-ai/app/image-to-image': { post: body('ImageToImage') },
+        },
+      };
+
+      assert.equal(extractEndpointsFromOpenAPI(openapi).length, 2);
+      assert.equal(extractInputSchemaFromOpenAPI(openapi, 'fal-ai/app/image-to-image')?.title, 'ImageToImage');
+      assert.equal(extractInputSchemaFromOpenAPI(openapi)?.title, 'Default');
+    },
+  },
+  {
+    name: 'malformed OpenAPI documents yield no schema',
+    run: async () => {
+      const { client } = setup();
+      assert.equal(extractInputSchemaFromOpenAPI(await client.fetchModelSchema(LLM)), null);
+      assert.equal(extractInputSchemaFromOpenAPI({ openapi: '3.0.4' }), null);
+      assert.equal(extractInputSchemaFromOpenAPI(null), null);
+    },
+  },
+  {
+    name: 'fetchModelSchema fails for unknown endpoints',
+    run: async () => {
+      const { client } = setup();
+      await assert.rejects(client.fetchModelSchema('fal-ai/does-not-exist'), FalNotFoundError);
+    },
+  },
+  {
+    name: 'a 5xx whose message mentions 404 is not treated as not found',
+    run: async () => {
+      const { client } = setup({ pricingFailures: [502, 502, 502, 502] });
+      await assert.rejects(client.fetchPricing([FLUX]), FalServerError);
+    },
+  },
+  {
+    name: 'an invalid key raises FalAuthError',
+    run: async () => {
+      const fake = createFakeFal({ apiKey: 'the-real-key' });
+      await assert.rejects(createClient(fake).fetchModels(), FalAuthError);
+      assert.equal(fake.requests.length, 1, 'auth errors are not retried');
+    },
+  },
+
+  {
+    name: 'image, video and audio results normalize to one media list',
+    run: async () => {
+      const image = normalizeFalOutput({
+        images: [{ url: 'https://cdn.test/a.png', width: 1024, height: 768, content_type: 'image/png' }],
+        seed: 42,
+        timings: { inference: 1.5 },
+      });
+      assert.deepEqual(image.items.map(i => [i.kind, i.mimeType, i.width, i.height]), [['image', 'image/png', 1024, 768]]);
+      assert.equal(image.seed, 42);
+      assert.deepEqual(image.timings, { inference: 1.5 });
+
+      const video = normalizeFalOutput({ video: { url: 'https://cdn.test/v', file_name: 'clip.mp4', file_size: 10 } });
+      assert.deepEqual(video.items.map(i => [i.kind, i.mimeType, i.fileSize]), [['video', 'video/mp4', 10]]);
+
+      const audio = normalizeFalOutput({ audio_url: 'https://cdn.test/speech', duration: 3 });
+      assert.deepEqual(audio.items.map(i => [i.kind, i.url]), [['audio', 'https://cdn.test/speech']]);
+
+      assert.deepEqual(normalizeFalOutput({ output: 'just text' }).items, []);
+    },
+  },
+
+  // --------------------------------------------------------------------------
+  // Parameter validation
+  // --------------------------------------------------------------------------
+  {
+    name: 'inputs are coerced, defaulted and checked against types, enums and ranges',
+    run: async () => {
+      const valid = validateParameters(IMAGE_PARAMETERS, {
+        prompt: 'a cat',
+        num_images: '3',
+        guidance_scale: '7.5',
+        image_size: 'square',
+        enable_safety_checker: 'false',
+      });
+      assert.deepEqual(valid.params, {
+        prompt: 'a cat',
+        num_images: 3,
+        guidance_scale: 7.5,
+        image_size: 'square',
+        enable_safety_checker: false,
+      });
+
+      const defaults = validateParameters(IMAGE_PARAMETERS, { prompt: 'a cat', guidance_scale: '' });
+      assert.deepEqual(defaults.params, { prompt: 'a cat', num_images: 1, enable_safety_checker: true });
+
+      const invalid = validateParameters(IMAGE_PARAMETERS, {
+        num_images: 9,
+        guidance_scale: -1,
+        image_size: 'portrait',
+        enable_safety_checker: 'maybe',
+      });
+      assert.equal(invalid.valid, false);
+      assert.deepEqual(invalid.errors.map(err => [err.field, err.code]), [
+        ['prompt', 'required'],
+        ['num_images', 'max'],
+        ['guidance_scale', 'min'],
+        ['image_size', 'enum'],
+        ['enable_safety_checker', 'type'],
+      ]);
+
+      const fractional = validateParameters(IMAGE_PARAMETERS, { prompt: 'a cat', num_images: '2.5' });
+      assert.deepEqual(fractional.errors.map(err => [err.field, err.code]), [['num_images', 'type']]);
+    },
+  },
+  {
+    name: 'unknown inputs are rejected by default or stripped on request',
+    run: async () => {
+      const rejected = validateParameters(IMAGE_PARAMETERS, { prompt: 'a cat', seed: 1 });
+      assert.deepEqual(rejected.errors.map(err => [err.field, err.code]), [['seed', 'unknown']]);
+
+      const stripped = validateParameters(IMAGE_PARAMETERS, { prompt: 'a cat', seed: 1 }, { unknownParameters: 'strip' });
+      assert.equal(stripped.valid, true);
+      assert.equal(stripped.params?.seed, undefined);
+    },
+  },
+  {
+    name: 'parameter defaults survive the round trip through model_parameters rows',
+    run: async () => {
+      const parameters: ParsedParameter[] = [
+        { name: 'enable_safety_checker', type: 'boolean', required: false, defaultValue: false },
+        { name: 'seed', type: 'integer', required: false, defaultValue: 0 },
+        { name: 'image_size', type: 'object', required: false, defaultValue: { width: 512, height: 512 } },
+        { name: 'style', type: 'string', required: false, defaultValue: 'true' },
+        { name: 'negative_prompt', type: 'string', required: false },
+      ];
+
+      const rows = toParameterRecords(FLUX, parameters) as unknown as ModelParameterRow[];
+      assert.deepEqual(
+        parametersFromRows(rows).map(param => param.defaultValue),
+        [false, 0, { width: 512, height: 512 }, 'true', undefined]
+      );
+    },
+  },
+
+  // --------------------------------------------------------------------------
+  // Task classification
+  // --------------------------------------------------------------------------
+  {
+    name: 'task types and tags come from category, then schemas',
+    run: async () => {
+      const schema = (...names: string[]) => ({
+        type: 'object',
+        properties: Object.fromEntries(names.map(name => [name, { type: 'string' }])),
+      });
+
+      assert.deepEqual(
+        classifyModel({ endpointId: 'fal-ai/some-model', category: 'text-to-image' }),
+        { taskType: 'IMAGE', tags: ['text-to-image'] }
+      );
+      assert.deepEqual(
+        classifyModel({
+          endpointId: 'fal-ai/esrgan',
+          inputSchema: schema('image_url', 'scale'),
+          outputSchema: schema('image'),
+        }),
+        { taskType: 'IMAGE', tags: ['image-to-image', 'upscaling'] }
+      );
+      assert.deepEqual(
+        classifyModel({
+          endpointId: 'fal-ai/birefnet',
+          inputSchema: schema('image_url'),
+          outputSchema: schema('image', 'mask_image'),
+        }),
+        { taskType: 'IMAGE', tags: ['background-removal', 'image-to-image'] }
+      );
+      assert.deepEqual(
+        classifyModel({
+          endpointId: 'fal-ai/whisper',
+          inputSchema: schema('audio_url', 'language'),
+          outputSchema: schema('text', 'chunks'),
+        }),
+        { taskType: 'TEXT', tags: ['audio-to-text'] }
+      );
+      // Substring matching would have called this VIDEO
+      assert.equal(
+        classifyModel({
+          endpointId: 'fal-ai/video-thumbnail',
+          inputSchema: schema('video_url'),
+          outputSchema: schema('images', 'prompt'),
+        }).taskType,
+        'IMAGE'
+      );
+      assert.deepEqual(
+        classifyModel({ endpointId: 'fal-ai/mystery' }),
+        { taskType: 'MULTIMODAL', tags: [] }
+      );
+    },
+  },
+
+  // --------------------------------------------------------------------------
+  // Pricing engine
+  // --------------------------------------------------------------------------
+  {
+    name: 'billing units are parsed from FAL unit strings',
+    run: async () => {
+      assert.deepEqual(parseBillingUnit('seconds'), { unit: 'second', per: 1 });
+      assert.deepEqual(parseBillingUnit('megapixels'), { unit: 'megapixel', per: 1 });
+      assert.deepEqual(parseBillingUnit('per 1k tokens'), { unit: 'token', per: 1000 });
+      assert.deepEqual(parseBillingUnit('1000 characters'), { unit: 'character', per: 1000 });
+      assert.equal(parseBillingUnit('gpu hours'), null);
+    },
+  },
+  {
+    name: 'request prices follow duration, image size and output count',
+    run: async () => {
+      assert.equal(estimateRequestPrice(0.1, 'seconds', { duration: '10' }).price, 1);
+      assert.equal(estimateRequestPrice(0.1, 'seconds', {}).price, null);
+      assert.equal(estimateRequestPrice(0.025, 'megapixels', { image_size: 'landscape_16_9', num_images: 2 }).price, 0.029491);
+      assert.equal(estimateRequestPrice(0.025, 'megapixels', { image_size: { width: 2000, height: 1000 } }).price, 0.05);
+      assert.equal(estimateRequestPrice(2, '1m tokens', { prompt: 'x'.repeat(400), max_tokens: 900 }).price, 0.002);
+      assert.equal(estimateRequestPrice(0.5, 'videos', { duration: '10' }).price, 0.5);
+    },
+  },
+  {
+    name: 'price ranges span allowed values and stay open for unbounded params',
+    run: async () => {
+      const duration = { name: 'duration', type: 'string', required: false, defaultValue: '5', allowedValues: ['5', '10'] };
+      assert.deepEqual(priceRange(0.1, 'seconds', [duration]), {
+        typical: 0.5, min: 0.5, max: 1, pricingType: 'variable',
+      });
+
+      const numImages = { name: 'num_images', type: 'integer', required: false, defaultValue: 1, minValue: 1 };
+      const range = priceRange(0.05, 'images', [numImages]);
+      assert.equal(range.min, 0.05);
+      assert.equal(range.max, null);
+
+      assert.equal(priceRange(0.5, 'requests', [duration]).pricingType, 'fixed');
+    },
+  },
+
+  {
+    name: 'quotes price variable requests from their params',
+    run: async () => {
+      const { fake, client } = setup();
+      const pricing = {
+        task_type: 'VIDEO' as const,
+        price_per_call: 0.5,
+        pricing_type: 'variable' as const,
+        pricing_details: { unit_price: 0.1, unit: 'seconds', currency: 'USD' },
+      };
+      const quote = await quoteFromPricing(KLING, pricing, { duration: '10' }, creditPricing(), client);
+
+      assert.deepEqual(
+        [quote.priceUsd, quote.credits, quote.source, quote.confidence],
+        [1, 40, 'pricing-engine', 'exact']
+      );
+      assert.equal(fake.requests.length, 0, 'the engine needs no FAL call');
+
+      const fixed = await quoteFromPricing(
+        KLING,
+        { ...pricing, pricing_type: 'fixed', pricing_details: { unit_price: 0.5, unit: 'requests' } },
+        {},
+        creditPricing(),
+        client
+      );
+      assert.deepEqual([fixed.credits, fixed.source], [20, 'cached-pricing']);
+    },
+  },
+  {
+    name: 'quotes fall back to FAL estimates and fail closed',
+    run: async () => {
+      const pricing = {
+        task_type: 'VIDEO' as const,
+        price_per_call: 0.1,
+        pricing_type: 'variable' as const,
+        pricing_details: { unit_price: 0.1, unit: 'seconds', currency: 'USD' },
+      };
+
+      // No duration parameter: the engine can't count seconds
+      const { client } = setup({ estimates: { [KLING]: 0.35 } });
+      const quote = await quoteFromPricing(KLING, pricing, {}, creditPricing(), client);
+      assert.deepEqual([quote.priceUsd, quote.source, quote.confidence], [0.35, 'fal-estimate', 'historical']);
+
+      const { client: noEstimates } = setup();
+      await assert.rejects(quoteFromPricing(KLING, pricing, {}, creditPricing(), noEstimates), CostEstimationError);
+      await assert.rejects(
+        quoteFromPricing(LLM, { ...pricing, price_per_call: null, pricing_type: 'unknown' }, {}, creditPricing(), client),
+        CostEstimationError
+      );
+
+      // Free and fixed prices must come from a price FAL reported
+      const free = { ...pricing, price_per_call: 0, pricing_type: 'free' as const };
+      const zero = await quoteFromPricing(LLM, { ...free, pricing_details: { unit_price: 0 } }, {}, creditPricing(), client);
+      assert.equal(zero.priceUsd, 0);
+      await assert.rejects(
+        quoteFromPricing(LLM, { ...free, pricing_details: {} }, {}, creditPricing(), client),
+        CostEstimationError
+      );
+      await assert.rejects(
+        quoteFromPricing(LLM, { ...pricing, pricing_type: 'fixed', pricing_details: null }, {}, creditPricing(), client),
+        CostEstimationError
+      );
+    },
+  },
+
+  // --------------------------------------------------------------------------
+  // Credit pricing
+  // --------------------------------------------------------------------------
+  {
+    name: 'credit costs apply model and task type margins and floors',
+    run: async () => {
+      const config = creditPricing({
+        task_type_multipliers: { VIDEO: 1.2 },
+        model_multipliers: { [KLING]: 2 },
+        min_credits: 2,
+        task_type_min_credits: { AUDIO: 5 },
+      });
+
+      // $0.1 at $0.025 per credit is 4 credits before margins
+      assert.equal(creditCost(0.1, config, { modelId: FLUX, taskType: 'IMAGE' }), 4);
+      assert.equal(creditCost(0.1, config, { modelId: 'fal-ai/other-video', taskType: 'VIDEO' }), 5);
+      assert.equal(creditCost(0.1, config, { modelId: KLING, taskType: 'VIDEO' }), 8, 'model margin wins');
+      assert.equal(creditCost(0.1, config, { modelId: KLING, taskType: 'VIDEO' }, 1.5), 12, 'markup stacks');
+      assert.equal(creditCost(0, config, { modelId: FLUX, taskType: 'IMAGE' }), 2);
+      assert.equal(creditCost(0.01, config, { modelId: TTS, taskType: 'AUDIO' }), 5);
+    },
+  },
+  {
+    name: 'sync fails loudly without an active credit pricing config',
+    run: async () => {
+      const { client } = setup();
+      const repository = new MemoryModelRepository();
+      await assert.rejects(syncFalModels({}, { falClient: client, repository }), CreditPricingError);
+      assert.equal(repository.models.size, 0);
+    },
+  },
+  {
+    name: 'credit costs are recomputed without a FAL sync',
+    run: async () => {
+      const { fake, client, repository } = setup();
+      await syncFalModels({}, { falClient: client, repository });
+      const requests = fake.requests.length;
+      const fluxPrice = repository.pricing.get(FLUX)!.price_per_call as number;
+
+      repository.creditPricing = creditPricing({
+        version: 2,
+        cost_per_credit_usd: 0.01,
+        model_multipliers: { [FLUX]: 2 },
+        task_type_min_credits: { VIDEO: 60 },
+      });
+
+      const plan = await recomputeCreditCosts({ dryRun: true }, { repository });
+      assert.equal(repository.pricing.get(KLING)!.credit_cost, 20, 'dry run writes nothing');
+      assert.deepEqual(
+        plan.changes.find(change => change.modelId === KLING),
+        { modelId: KLING, oldCredits: 20, newCredits: 60 }
+      );
+
+      // A partial pricing row can't go through an upsert on Postgres
+      await assert.rejects(repository.upsertPricing([{ model_id: KLING, credit_cost: 60 }]));
+
+      const result = await recomputeCreditCosts({}, { repository });
+      assert.deepEqual(result.errors, []);
+      assert.equal(result.version, 2);
+      assert.equal(repository.pricing.get(KLING)!.credit_cost, 60);
+      assert.equal(repository.pricing.get(FLUX)!.credit_cost, Math.ceil((fluxPrice * 2) / 0.01));
+      assert.equal(repository.pricing.get(TTS)!.credit_cost, null, 'unpriced models stay without a cost');
+      assert.equal(fake.requests.length, requests, 'no FAL requests');
+
+      const change = repository.history.find(h => h.modelId === KLING && h.changeType === 'updated');
+      assert.deepEqual(change?.changes.pricing?.credit_cost, { old: 20, new: 60 });
+
+      const again = await recomputeCreditCosts({}, { repository });
+      assert.equal(again.changes.length, 0);
+    },
+  },
+
+  // --------------------------------------------------------------------------
+  // Model curation
+  // --------------------------------------------------------------------------
+  {
+    name: 'curation decides exposure, defaults, hidden params and markup',
+    run: async () => {
+      assert.equal(isModelExposed(true, null, 'allowlist'), false);
+      assert.equal(isModelExposed(true, 'allowed', 'allowlist'), true);
+      assert.equal(isModelExposed(true, null, 'blocklist'), true);
+      assert.equal(isModelExposed(true, 'blocked', 'blocklist'), false);
+      assert.equal(isModelExposed(false, 'allowed', 'blocklist'), false, 'inactive models never show');
+
+      const parameters = [
+        { name: 'prompt', type: 'string', required: true },
+        { name: 'num_images', type: 'integer', required: false, defaultValue: 1, minValue: 1, maxValue: 4 },
+        { name: 'enable_safety_checker', type: 'boolean', required: false, defaultValue: true },
+      ];
+      const curation = { default_params: { num_images: 2 }, hidden_params: ['enable_safety_checker'] };
+
+      assert.equal(curateParameters(parameters, curation)[1].defaultValue, 2);
+      assert.deepEqual(visibleParameters(parameters, curation).map(p => p.name), ['prompt', 'num_images']);
+      assert.deepEqual(
+        stripHiddenParams({ prompt: 'a cat', enable_safety_checker: false }, curation),
+        { prompt: 'a cat' }
+      );
+
+      const valid = validateCuration(
+        { featured_rank: 0, price_markup: 1.5, default_params: { num_images: '3' }, hidden_params: [] },
+        parameters
+      );
+      assert.deepEqual(valid, { errors: [], defaultParams: { num_images: 3 } });
+
+      const invalid = validateCuration(
+        { featured_rank: -1, price_markup: 0, default_params: { num_images: 9 }, hidden_params: ['prompt', 'seed'] },
+        parameters
+      );
+      assert.deepEqual(invalid.errors.map(err => err.field), [
+        'featured_rank',
+        'price_markup',
+        'default_params.num_images',
+        'hidden_params',
+        'hidden_params',
+      ]);
+
+      // $0.5 at a 1.5x markup is $0.75, 30 credits at $0.025
+      const { client } = setup();
+      const quote = await quoteFromPricing(
+        KLING,
+        { task_type: 'VIDEO', price_per_call: 0.5, pricing_type: 'fixed', pricing_details: { unit_price: 0.5 } },
+        {},
+        creditPricing(),
+        client,
+        1.5
+      );
+      assert.deepEqual([quote.priceUsd, quote.credits, quote.markup], [0.5, 30, 1.5]);
+    },
+  },
+
+  // --------------------------------------------------------------------------
+  // syncFalModels
+  // --------------------------------------------------------------------------
+  {
+    name: 'sync stores models, task types, parameters and credit costs',
+    run: async () => {
+      const { client, repository } = setup();
+      const result = await syncFalModels({}, { falClient: client, repository });
+
+      assert.deepEqual(result.errors, []);
+      assert.equal(result.modelsAdded, 4);
+
+      const taskTypes = Object.fromEntries(
+        Array.from(repository.models.values()).map(m => [m.id, m.task_type])
+      );
+      assert.deepEqual(taskTypes, { [FLUX]: 'IMAGE', [KLING]: 'VIDEO', [TTS]: 'AUDIO', [LLM]: 'TEXT' });
+      assert.deepEqual(repository.models.get(KLING)!.task_tags, ['image-to-video']);
+
+      // ceil(price / $0.025 per credit), at least 1; TTS is missing from the pricing response
+      const credits = Object.fromEntries(
+        Array.from(repository.pricing.values()).map(p => [p.model_id, p.credit_cost])
+      );
+      assert.deepEqual(credits, { [FLUX]: 2, [KLING]: 20, [TTS]: null, [LLM]: 1 });
+      assert.equal(repository.pricing.get(TTS)!.pricing_type, 'unknown', 'a missing price is not free');
+
+      const fluxParams = repository.parameters.get(FLUX)!;
+      assert.equal(fluxParams.length, 6);
+      assert.deepEqual(
+        fluxParams.filter(p => p.is_required).map(p => p.parameter_name).sort(),
+        ['image_url', 'prompt']
+      );
+      assert.deepEqual(repository.parameters.get(LLM) ?? [], [], 'malformed schema stores no parameters');
+      assert.deepEqual(repository.models.get(LLM)!.input_schema, {});
+      assert.deepEqual((repository.models.get(FLUX)!.output_schema as { required: string[] }).required, ['images']);
+      assert.deepEqual(repository.models.get(TTS)!.output_schema, {}, 'no result route, no output schema');
+
+      assert.equal(repository.history.filter(h => h.changeType === 'added').length, 4);
+    },
+  },
+  {
+    name: 'admin task overrides survive syncs',
+    run: async () => {
+      const { client } = setup();
+      const repository = new MemoryModelRepository({
+        creditRate: 0.025,
+        taskOverrides: {
+          [FLUX]: { taskType: null, tags: ['style-transfer'] },
+          [LLM]: { taskType: 'MULTIMODAL', tags: null },
+        },
+      });
+      await syncFalModels({}, { falClient: client, repository });
+
+      assert.equal(repository.models.get(FLUX)!.task_type, 'IMAGE');
+      assert.deepEqual(repository.models.get(FLUX)!.task_tags, ['style-transfer']);
+      assert.equal(repository.models.get(LLM)!.task_type, 'MULTIMODAL');
+      assert.deepEqual(repository.models.get(LLM)!.task_tags, ['text-generation']);
+
+      // Dropping an override reclassifies the model on the next sync
+      repository.taskOverrides.delete(LLM);
+      const result = await syncFalModels({}, { falClient: client, repository });
+      assert.equal(result.modelsChanged, 1);
+      assert.equal(repository.models.get(LLM)!.task_type, 'TEXT');
+    },
+  },
+  {
+    name: 'a task override set by an admin beats the classifier until cleared',
+    run: async () => {
+      const { client, repository } = setup();
+      await syncFalModels({}, { falClient: client, repository });
+      assert.equal(repository.models.get(LLM)!.task_type, 'TEXT');
+
+      await setTaskOverride(LLM, { taskType: 'MULTIMODAL', tags: [' Vision', 'text-generation', 'vision'] }, { repository });
+      assert.deepEqual(await getTaskOverride(LLM, { repository }), {
+        taskType: 'MULTIMODAL',
+        tags: ['text-generation', 'vision'],
+      });
+
+      await syncFalModels({}, { falClient: client, repository });
+      assert.equal(repository.models.get(LLM)!.task_type, 'MULTIMODAL');
+      assert.deepEqual(repository.models.get(LLM)!.task_tags, ['text-generation', 'vision']);
+
+      await assert.rejects(
+        setTaskOverride(LLM, { taskType: 'SPEECH' as TaskType, tags: null }, { repository }),
+        TaskOverrideValidationError
+      );
+      await assert.rejects(
+        setTaskOverride(LLM, { taskType: null, tags: ['text to speech'] }, { repository }),
+        TaskOverrideValidationError
+      );
+      await assert.rejects(
+        setTaskOverride(LLM, { taskType: null, tags: null }, { repository }),
+        TaskOverrideValidationError
+      );
+
+      await clearTaskOverride(LLM, { repository });
+      assert.equal(await getTaskOverride(LLM, { repository }), null);
+      await syncFalModels({}, { falClient: client, repository });
+      assert.equal(repository.models.get(LLM)!.task_type, 'TEXT');
+      assert.deepEqual(repository.models.get(LLM)!.task_tags, ['text-generation']);
+    },
+  },
+  {
+    name: 'a second sync skips unchanged models',
+    run: async () => {
+      const { client, repository } = setup();
+      await syncFalModels({}, { falClient: client, repository });
+      const result = await syncFalModels({}, { falClient: client, repository });
+
+      assert.equal(result.modelsUnchanged, 4);
+      assert.equal(result.modelsChanged, 0);
+    },
+  },
+  {
+    name: 'price changes update credit cost and history',
+    run: async () => {
+      const { client, repository } = setup();
+      await syncFalModels({}, { falClient: client, repository });
+
+      repository.creditPricing = creditPricing({ version: 2, cost_per_credit_usd: 0.01 });
+      const result = await syncFalModels({}, { falClient: client, repository });
+
+      // Flux and Kling cost more credits; the LLM stays at the 1 credit minimum, TTS is unpriced
+      assert.equal(result.pricingUpdated, 2);
+      assert.equal(repository.pricing.get(KLING)!.credit_cost, 50);
+      const change = repository.history.find(h => h.modelId === KLING && h.changeType === 'updated');
+      assert.deepEqual(change?.changes.pricing?.credit_cost, { old: 20, new: 50 });
+    },
+  },
+  {
+    name: 'pricing failure keeps stored prices and leaves new models unpriced',
+    run: async () => {
+      const failing = () => createClient(createFakeFal({ pricingFailures: [500, 500, 500, 500] }));
+
+      const fresh = new MemoryModelRepository({ creditRate: 0.025 });
+      const first = await syncFalModels({}, { falClient: failing(), repository: fresh });
+      assert.equal(first.modelsAdded, 4);
+      assert.ok(first.errors.some(e => e.model === 'pricing'));
+      assert.ok(Array.from(fresh.pricing.values()).every(p => p.pricing_type === 'unknown' && p.credit_cost === null));
+
+      const { client, repository } = setup();
+      await syncFalModels({}, { falClient: client, repository });
+      const stored = structuredClone(Array.from(repository.pricing.values()));
+      const result = await syncFalModels({ full: true }, { falClient: failing(), repository });
+
+      assert.equal(result.pricingUpdated, 0);
+      assert.deepEqual(Array.from(repository.pricing.values()), stored, 'stored pricing is untouched');
+
+      // The next sync with prices still sees the pricing as current
+      const next = await syncFalModels({}, { falClient: client, repository });
+      assert.equal(next.modelsUnchanged, 4);
+    },
+  },
+  {
+    name: 'per-second and per-megapixel models store typical prices and ranges',
+    run: async () => {
+      const { client, repository } = setup({
+        prices: [
+          { endpoint_id: KLING, unit_price: 0.1, unit: 'seconds', currency: 'USD' },
+          { endpoint_id: FLUX, unit_price: 0.025, unit: 'megapixels', currency: 'USD' },
+          { endpoint_id: TTS, unit_price: 0.1, unit: 'seconds', currency: 'USD' },
+        ],
+      });
+      await syncFalModels({}, { falClient: client, repository });
+
+      // 5s default, 5-10s allowed
+      const kling = repository.pricing.get(KLING)!;
+      assert.equal(kling.pricing_type, 'variable');
+      assert.deepEqual([kling.price_per_call, kling.min_price, kling.max_price], [0.5, 0.5, 1]);
+      assert.equal(kling.credit_cost, 20);
+
+      // One 1024x1024 image by default, up to four
+      const flux = repository.pricing.get(FLUX)!;
+      assert.deepEqual([flux.price_per_call, flux.min_price, flux.max_price], [0.026214, 0.026214, 0.104858]);
+      assert.equal(flux.credit_cost, 2);
+
+      // Speech length isn't a parameter: no per-call price rather than one second's
+      const tts = repository.pricing.get(TTS)!;
+      assert.equal(tts.pricing_type, 'variable');
+      assert.deepEqual([tts.price_per_call, tts.max_price, tts.credit_cost], [null, null, null]);
+    },
+  },
+  {
+    name: 'models unknown to the pricing API are flagged, not free',
+    run: async () => {
+      const { client, repository } = setup({ unknownPricingIds: [LLM] });
+      const result = await syncFalModels({}, { falClient: client, repository });
+
+      assert.deepEqual(result.unknownPricing, [TTS, LLM]);
+      const llm = repository.pricing.get(LLM)!;
+      assert.equal(llm.pricing_type, 'unknown');
+      assert.equal(llm.credit_cost, null);
+      assert.equal(llm.price_per_call, null);
+      assert.equal(repository.pricing.get(KLING)!.credit_cost, 20, 'the rest of the batch is still priced');
+    },
+  },
+  {
+    name: 'dry run returns a plan and writes nothing',
+    run: async () => {
+      const { client, repository } = setup();
+      const result = await syncFalModels({ dryRun: true }, { falClient: client, repository });
+
+      assert.equal(repository.models.size, 0);
+      assert.equal(repository.history.length, 0);
+      assert.equal(result.plan?.totals.modelsInserted, 4);
+      assert.equal(result.plan?.totals.parameterRowsInserted, 6 + 4 + 2);
+    },
+  },
+  {
+    name: 'models missing from the catalog are deactivated',
+    run: async () => {
+      const { client, repository } = setup();
+      await syncFalModels({}, { falClient: client, repository });
+
+      const fake = createFakeFal({
+        pages: {
+          '': RECORDED_PAGES[''],
+          'cursor-2': { ...RECORDED_PAGES['cursor-2'], models: RECORDED_PAGES['cursor-2'].models.slice(0, 1) },
+        },
+      });
+      const result = await syncFalModels(
+        { maxRemovalRatio: 0.5 },
+        { falClient: createClient(fake), repository }
+      );
+
+      assert.equal(result.modelsRemoved, 1);
+      assert.equal(repository.models.get(LLM)!.is_active, false);
+      assert.ok(repository.models.get(LLM)!.removed_at);
+    },
+  },
+  {
+    name: 'the removal guard refuses to deactivate most of the catalog',
+    run: async () => {
+      const { client, repository } = setup();
+      await syncFalModels({}, { falClient: client, repository });
+
+      const fake = createFakeFal({
+        pages: { '': { models: RECORDED_PAGES[''].models.slice(0, 1), next_cursor: null, has_more: false } },
+      });
+      const result = await syncFalModels({}, { falClient: createClient(fake), repository });
+
+      assert.equal(result.modelsRemoved, 0);
+      assert.ok(result.errors.some(e => e.model === 'catalog'));
+      assert.equal(repository.models.get(LLM)!.is_active, true);
+    },
+  },
+];
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const filter = args.find(arg => !arg.startsWith('--'));
+  const selected = scenarios.filter(s => !filter || s.name.includes(filter));
+
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  let failed = 0;
+
+  for (const scenario of selected) {
+    if (!verbose) {
+      console.log = console.warn = console.error = () => {};
+    }
+    let failure: unknown = null;
+    try {
+      await scenario.run();
+    } catch (error) {
+      failure = error;
+    } finally {
+      Object.assign(console, original);
+    }
+
+    if (failure) {
+      failed++;
+      console.log(`❌ ${scenario.name}`);
+      console.log(`   ${failure instanceof Error ? failure.message.split('\n').join('\n   ') : failure}`);
+    } else {
+      console.log(`✅ ${scenario.name}`);
+    }
+  }
+
+  console.log(`\n${selected.length - failed}/${selected.length} scenarios passed`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Harness failed:', error);
+  process.exitCode = 1;
+});
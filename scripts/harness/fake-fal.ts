@@ -0,0 +1,241 @@
+// ============================================================================
+// FAKE FAL SERVER
+// fetch implementation serving recorded FAL responses, for running the
+// client and the sync offline
+// ============================================================================
+
+import modelsPage1 from './fixtures/models-page-1.json';
+import modelsPage2 from './fixtures/models-page-2.json';
+import recordedPricing from './fixtures/pricing.json';
+import type { FalModel, FalPricingItem, FalQueueLog } from '../../src/lib/fal/types';
+
+export const FAKE_API_URL = 'https://api.fal.test';
+export const FAKE_QUEUE_URL = 'https://queue.fal.test';
+export const FAKE_SCHEMA_URL = 'https://fal.test/api/openapi/queue/openapi.json';
+
+export interface FakeFalOptions {
+  /** Catalog pages, keyed by the cursor that requests them ('' for the first) */
+  pages?: Record<string, { models: FalModel[]; next_cursor: string | null; has_more: boolean }>;
+  prices?: FalPricingItem[];
+  /** Answer expand=openapi-3.0 with 400, like accounts without schema access */
+  rejectExpand?: boolean;
+  /** Status codes returned by successive pricing requests before they succeed */
+  pricingFailures?: number[];
+  /** Endpoint ids the pricing API no longer knows; any batch containing one gets a 404 */
+  unknownPricingIds?: string[];
+  /** Retry-After header sent with 429 responses */
+  retryAfter?: string;
+  /** Delay before every response in ms */
+  latency?: number;
+  /** Answer requests authenticated with any other key with 401 */
+  apiKey?: string;
+  /** Historical cost per call returned by the estimate endpoint */
+  estimates?: Record<string, number>;
+  /** Body of queue submit responses, replacing the generated request id */
+  queueSubmitResponse?: Record<string, unknown>;
+  /** Status polls a queued request spends in IN_QUEUE/IN_PROGRESS before COMPLETED (default 2) */
+  queuePolls?: number;
+  /** Result body of completed queue requests */
+  queueResult?: unknown;
+  /** Logs revealed one per status poll when ?logs=1 is asked for */
+  queueLogs?: FalQueueLog[];
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: URL;
+}
+
+export interface FakeFal {
+  fetch: typeof fetch;
+  requests: RecordedRequest[];
+  /** Queue request ids that were cancelled before completing */
+  cancelled: string[];
+  /** Most requests that were in flight at the same time */
+  maxInFlight: number;
+  /** Requests whose path starts with prefix */
+  requestsTo(prefix: string): RecordedRequest[];
+}
+
+export const RECORDED_PAGES = {
+  '': modelsPage1,
+  'cursor-2': modelsPage2,
+} as unknown as NonNullable<FakeFalOptions['pages']>;
+
+export const RECORDED_PRICES = recordedPricing.prices as FalPricingItem[];
+
+export const DEFAULT_QUEUE_RESULT = {
+  images: [{ url: 'https://fal.media/files/cat.png', content_type: 'image/png' }],
+};
+
+const QUEUE_REQUEST_PATH = /^\/([^/]+\/[^/]+)\/requests\/([^/]+)(\/status|\/cancel)?$/;
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function error(status: number, message: string, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ code: `HTTP_${status}`, message }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+export function createFakeFal(options: FakeFalOptions = {}): FakeFal {
+  const pages = options.pages || RECORDED_PAGES;
+  const prices = options.prices || RECORDED_PRICES;
+  const pricingFailures = [...(options.pricingFailures || [])];
+  const unknownPricingIds = new Set(options.unknownPricingIds || []);
+  const requests: RecordedRequest[] = [];
+  const queuePolls = options.queuePolls ?? 2;
+  const queueLogs = options.queueLogs || [];
+  // Submitted queue requests by id, with the app id their status/result live under
+  const queued = new Map<string, { appId: string; polls: number; cancelled: boolean }>();
+  let inFlight = 0;
+
+  const schemas = new Map<string, unknown>();
+  for (const page of Object.values(pages)) {
+    for (const model of page.models) {
+      if (model.openapi) schemas.set(model.endpoint_id, model.openapi);
+    }
+  }
+
+  const handle = (method: string, url: URL): Response => {
+    const schemaUrl = new URL(FAKE_SCHEMA_URL);
+    if (url.origin === schemaUrl.origin && url.pathname === schemaUrl.pathname) {
+      const schema = schemas.get(url.searchParams.get('endpoint_id') || '');
+      return schema ? json(200, schema) : error(404, 'Endpoint not found');
+    }
+
+    if (url.origin === FAKE_QUEUE_URL) {
+      if (method === 'POST') {
+        const requestId = `request-${queued.size + 1}`;
+        const appId = url.pathname.split('/').slice(1, 3).join('/');
+        queued.set(requestId, { appId, polls: 0, cancelled: false });
+        return json(200, options.queueSubmitResponse ?? { request_id: requestId, status: 'IN_QUEUE' });
+      }
+
+      const match = QUEUE_REQUEST_PATH.exec(url.pathname);
+      const request = match && queued.get(decodeURIComponent(match[2]));
+      if (!match || !request || request.appId !== match[1]) {
+        return error(404, `No fake route for ${method} ${url.pathname}`);
+      }
+      const completed = !request.cancelled && request.polls >= queuePolls;
+
+      if (method === 'GET' && match[3] === '/status') {
+        const status = completed ? 'COMPLETED' : request.polls === 0 ? 'IN_QUEUE' : 'IN_PROGRESS';
+        const logs = url.searchParams.get('logs') === '1'
+          ? queueLogs.slice(0, request.polls + 1)
+          : null;
+        if (!request.cancelled) request.polls++;
+        return json(200, { status, request_id: match[2], logs });
+      }
+      if (method === 'GET' && !match[3]) {
+        return completed
+          ? json(200, options.queueResult ?? DEFAULT_QUEUE_RESULT)
+          : error(400, 'Request is still in progress');
+      }
+      if (method === 'PUT' && match[3] === '/cancel') {
+        if (completed) return error(400, 'Request already completed');
+        request.cancelled = true;
+        fake.cancelled.push(match[2]);
+        return json(202, { status: 'CANCELLATION_REQUESTED' });
+      }
+      return error(404, `No fake route for ${method} ${url.pathname}`);
+    }
+
+    if (url.origin !== FAKE_API_URL) {
+      return error(404, `No fake route for ${url.origin}`);
+    }
+
+    if (method === 'GET' && url.pathname === '/v1/models') {
+      const expand = url.searchParams.get('expand');
+      if (expand && options.rejectExpand) {
+        return error(400, `Unsupported expand value: ${expand}`);
+      }
+
+      const page = pages[url.searchParams.get('cursor') || ''];
+      if (!page) {
+        return error(400, 'Invalid cursor');
+      }
+
+      return json(200, {
+        ...page,
+        models: page.models.map(model => (expand ? model : { ...model, openapi: undefined })),
+      });
+    }
+
+    if (method === 'GET' && url.pathname === '/v1/models/pricing') {
+      const failure = pricingFailures.shift();
+      if (failure) {
+        return failure === 429
+          ? error(429, 'Rate limit exceeded', options.retryAfter ? { 'Retry-After': options.retryAfter } : {})
+          : error(failure, 'Pricing unavailable: upstream returned 404');
+      }
+
+      const ids = url.searchParams.getAll('endpoint_id');
+      const unknown = ids.filter(id => unknownPricingIds.has(id));
+      if (unknown.length > 0) {
+        return error(404, `Endpoints not found: ${unknown.join(', ')}`);
+      }
+
+      return json(200, {
+        prices: prices.filter(price => ids.includes(price.endpoint_id)),
+        next_cursor: null,
+        has_more: false,
+      });
+    }
+
+    if (method === 'POST' && url.pathname === '/v1/models/pricing/estimate') {
+      const known = Object.entries(options.estimates || {});
+      return json(200, {
+        estimates: Object.fromEntries(known.map(([id, cost]) => [id, { cost_per_call: cost }])),
+      });
+    }
+
+    return error(404, `No fake route for ${method} ${url.pathname}`);
+  };
+
+  const fakeFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = init?.method || (input instanceof Request ? input.method : 'GET');
+    requests.push({ method, url });
+
+    const authorization = new Headers(init?.headers).get('authorization');
+    if (options.apiKey && authorization !== `Key ${options.apiKey}`) {
+      return error(401, 'Invalid API key');
+    }
+
+    inFlight++;
+    fake.maxInFlight = Math.max(fake.maxInFlight, inFlight);
+    try {
+      if (options.latency) await delay(options.latency, init?.signal);
+      return handle(method, url);
+    } finally {
+      inFlight--;
+    }
+  };
+
+  const fake: FakeFal = {
+    fetch: fakeFetch as typeof fetch,
+    requests,
+    cancelled: [],
+    maxInFlight: 0,
+    requestsTo: prefix => requests.filter(request => request.url.pathname.startsWith(prefix)),
+  };
+  return fake;
+}
@@ -0,0 +1,74 @@
+"use server";
+
+// ============================================================================
+// CREDIT PRICING ACTIONS
+// Server actions behind the admin credit pricing page
+// ============================================================================
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { requireAdmin } from "@/lib/auth/admin";
+import {
+  activateCreditPricingConfig,
+  createCreditPricingConfig,
+  CreditPricingError,
+} from "@/lib/services/credit-pricing";
+import { recomputeCreditCosts } from "@/lib/services/credit-recompute";
+
+const PAGE_PATH = "/admin/credit-pricing";
+
+function text(formData: FormData, key: string): string | null {
+  const value = formData.get(key);
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+}
+
+function jsonObject(formData: FormData, key: string): Record<string, number> {
+  const value = text(formData, key);
+  const parsed = value ? JSON.parse(value) : {};
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new SyntaxError(`${key} must be a JSON object`);
+  }
+  return parsed;
+}
+
+/**
+ * Save a new draft version; errors come back in ?error=
+ */
+export async function createDraft(formData: FormData) {
+  await requireAdmin();
+  const effectiveFrom = text(formData, "effective_from");
+  let error: string | null = null;
+
+  try {
+    await createCreditPricingConfig({
+      cost_per_credit_usd: Number(text(formData, "cost_per_credit_usd")),
+      min_credits: Number(text(formData, "min_credits") ?? 1),
+      task_type_multipliers: jsonObject(formData, "task_type_multipliers"),
+      model_multipliers: jsonObject(formData, "model_multipliers"),
+      task_type_min_credits: jsonObject(formData, "task_type_min_credits"),
+      // datetime-local has no zone; the form asks for UTC
+      effective_from: effectiveFrom ? `${effectiveFrom}Z` : undefined,
+      note: text(formData, "note"),
+    });
+  } catch (createError) {
+    if (!(createError instanceof CreditPricingError) && !(createError instanceof SyntaxError)) {
+      throw createError;
+    }
+    error = createError.message;
+  }
+
+  revalidatePath(PAGE_PATH);
+  redirect(error ? `${PAGE_PATH}?error=${encodeURIComponent(error)}` : PAGE_PATH);
+}
+
+/**
+ * Activate a draft now and bring every stored credit cost up to date
+ */
+export async function activateVersion(version: number) {
+  await requireAdmin();
+  await activateCreditPricingConfig(version);
+  const result = await recomputeCreditCosts();
+
+  revalidatePath(PAGE_PATH);
+  redirect(`${PAGE_PATH}?activated=${version}&changed=${result.changes.length}`);
+}
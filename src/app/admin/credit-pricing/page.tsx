@@ -0,0 +1,206 @@
+import Link from "next/link";
+import { requireAdmin } from "@/lib/auth/admin";
+import { creditPricingStatus, listCreditPricingConfigs } from "@/lib/services/credit-pricing";
+import { activateVersion, createDraft } from "./actions";
+
+export const dynamic = "force-dynamic";
+
+const fieldClass =
+  "rounded-lg border border-black/[.08] bg-white px-3 py-2 text-sm text-black dark:border-white/[.145] dark:bg-zinc-900 dark:text-zinc-50";
+
+const labelClass = "flex flex-col gap-1 text-sm text-zinc-600 dark:text-zinc-400";
+
+const buttonClass =
+  "h-10 rounded-full bg-foreground px-5 text-sm font-medium text-background transition-colors hover:bg-[#383838] dark:hover:bg-[#ccc]";
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function formatMap(value: Record<string, number>): string {
+  const entries = Object.entries(value);
+  return entries.length === 0 ? "—" : entries.map(([key, amount]) => `${key} ${amount}`).join(", ");
+}
+
+function jsonField(value: Record<string, number> | undefined): string {
+  return JSON.stringify(value ?? {}, null, 2);
+}
+
+export default async function CreditPricingPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requireAdmin();
+
+  const [query, configs] = await Promise.all([searchParams, listCreditPricingConfigs()]);
+  const active = configs.find(config => config.is_active);
+  const error = typeof query.error === "string" ? query.error : null;
+  const activated = typeof query.activated === "string" ? query.activated : null;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <div className="flex flex-col gap-2">
+          <Link href="/admin/models" className="text-sm text-zinc-500 hover:underline">
+            ← Model curation
+          </Link>
+          <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+            Credit pricing
+          </h1>
+          <p className="max-w-3xl text-sm text-zinc-600 dark:text-zinc-400">
+            {active
+              ? `Version ${active.version} is active: $${active.cost_per_credit_usd.toFixed(4)} per credit, at least ${active.min_credits} credits per generation.`
+              : "No version is active. Generations can't be priced until one is."}
+          </p>
+        </div>
+
+        {error && (
+          <p className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </p>
+        )}
+        {activated && (
+          <p className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-700 dark:border-green-900 dark:bg-green-950 dark:text-green-300">
+            Version {activated} activated; {query.changed ?? 0} credit costs recomputed.
+          </p>
+        )}
+
+        <div className="overflow-x-auto rounded-lg border border-black/[.08] bg-white dark:border-white/[.145] dark:bg-zinc-950">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-black/[.08] text-zinc-500 dark:border-white/[.145]">
+              <tr>
+                <th className="px-4 py-3 font-medium">Version</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 text-right font-medium">USD / credit</th>
+                <th className="px-4 py-3 font-medium">Margins</th>
+                <th className="px-4 py-3 font-medium">Floors</th>
+                <th className="px-4 py-3 font-medium">Effective</th>
+                <th className="px-4 py-3 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {configs.map(config => {
+                const status = creditPricingStatus(config);
+
+                return (
+                  <tr
+                    key={config.version}
+                    className="border-b border-black/[.04] align-top last:border-0 dark:border-white/[.08]"
+                  >
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-black dark:text-zinc-50">v{config.version}</div>
+                      {config.note && <div className="text-xs text-zinc-500">{config.note}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">{status}</td>
+                    <td className="px-4 py-3 text-right tabular-nums text-zinc-700 dark:text-zinc-300">
+                      ${config.cost_per_credit_usd.toFixed(4)}
+                    </td>
+                    <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">
+                      {formatMap({ ...config.task_type_multipliers, ...config.model_multipliers })}
+                    </td>
+                    <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">
+                      {formatMap({ all: config.min_credits, ...config.task_type_min_credits })}
+                    </td>
+                    <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">
+                      {formatDate(config.effective_from)} – {formatDate(config.effective_until)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {status === "draft" && (
+                        <form action={activateVersion.bind(null, config.version)}>
+                          <button type="submit" className="text-sm font-medium hover:underline">
+                            Activate now
+                          </button>
+                        </form>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {configs.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-zinc-500">
+                    No credit pricing versions yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <section className="flex flex-col gap-4">
+          <h2 className="text-xl font-semibold text-black dark:text-zinc-50">New version</h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Saved as a draft. Activate it here, or let the credits job activate it once its
+            effective date passes; either way stored credit costs are recomputed.
+          </p>
+          <form action={createDraft} className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <label className={labelClass}>
+              USD per credit
+              <input
+                name="cost_per_credit_usd"
+                type="number"
+                min={0.000001}
+                step="any"
+                required
+                defaultValue={active?.cost_per_credit_usd}
+                className={fieldClass}
+              />
+            </label>
+            <label className={labelClass}>
+              Minimum credits
+              <input
+                name="min_credits"
+                type="number"
+                min={1}
+                step={1}
+                defaultValue={active?.min_credits ?? 1}
+                className={fieldClass}
+              />
+            </label>
+            <label className={labelClass}>
+              Effective from (UTC)
+              <input name="effective_from" type="datetime-local" className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              Task type margins
+              <textarea
+                name="task_type_multipliers"
+                rows={4}
+                defaultValue={jsonField(active?.task_type_multipliers)}
+                className={`${fieldClass} font-mono`}
+              />
+            </label>
+            <label className={labelClass}>
+              Model margins
+              <textarea
+                name="model_multipliers"
+                rows={4}
+                defaultValue={jsonField(active?.model_multipliers)}
+                className={`${fieldClass} font-mono`}
+              />
+            </label>
+            <label className={labelClass}>
+              Task type minimum credits
+              <textarea
+                name="task_type_min_credits"
+                rows={4}
+                defaultValue={jsonField(active?.task_type_min_credits)}
+                className={`${fieldClass} font-mono`}
+              />
+            </label>
+            <label className={`${labelClass} sm:col-span-3`}>
+              Note
+              <input name="note" className={fieldClass} />
+            </label>
+            <div>
+              <button type="submit" className={buttonClass}>
+                Save draft
+              </button>
+            </div>
+          </form>
+        </section>
+      </main>
+    </div>
+  );
+}
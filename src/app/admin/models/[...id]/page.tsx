@@ -0,0 +1,247 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { requireAdmin } from "@/lib/auth/admin";
+import { getModelDetail } from "@/lib/services/model-catalog";
+import {
+  getExposureMode,
+  getModelCuration,
+  isModelExposed,
+} from "@/lib/services/model-curation";
+import { getTaskOverride, TASK_TYPES } from "@/lib/services/task-overrides";
+import { removeCuration, removeTaskOverride, saveCuration, saveTaskOverride } from "../actions";
+
+export const dynamic = "force-dynamic";
+
+const fieldClass =
+  "rounded-lg border border-black/[.08] bg-white px-3 py-2 text-sm text-black dark:border-white/[.145] dark:bg-zinc-900 dark:text-zinc-50";
+
+const labelClass = "flex flex-col gap-1 text-sm text-zinc-600 dark:text-zinc-400";
+
+export default async function AdminModelPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string[] }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requireAdmin();
+
+  const [{ id }, query] = await Promise.all([params, searchParams]);
+  // Model ids contain slashes (fal-ai/flux/dev), hence the catch-all segment
+  const modelId = id.map(decodeURIComponent).join("/");
+
+  const [model, curation, mode, taskOverride] = await Promise.all([
+    getModelDetail(modelId),
+    getModelCuration(modelId),
+    getExposureMode(),
+    getTaskOverride(modelId),
+  ]);
+
+  if (!model) {
+    notFound();
+  }
+
+  const error = typeof query.error === "string" ? query.error : null;
+  const saved = query.saved === "1";
+  const overrideSaved = query.saved === "override";
+  const exposed = isModelExposed(model.is_active, curation?.status, mode);
+  const hidden = new Set(curation?.hidden_params ?? []);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="mx-auto flex w-full max-w-3xl flex-col gap-8 px-6 py-12">
+        <div className="flex flex-col gap-2">
+          <Link href="/admin/models" className="text-sm text-zinc-500 hover:underline">
+            ← Model curation
+          </Link>
+          <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+            {curation?.display_name ?? model.display_name}
+          </h1>
+          <p className="text-sm text-zinc-500">
+            {model.id} · {model.is_active ? "Active" : "Inactive"} on FAL ·{" "}
+            {exposed ? "visible to users" : "hidden from users"}
+          </p>
+        </div>
+
+        {error && (
+          <p className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </p>
+        )}
+        {saved && !error && (
+          <p className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-700 dark:border-green-900 dark:bg-green-950 dark:text-green-300">
+            Curation saved.
+          </p>
+        )}
+        {overrideSaved && !error && (
+          <p className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-700 dark:border-green-900 dark:bg-green-950 dark:text-green-300">
+            Task override saved. It applies on the next sync.
+          </p>
+        )}
+
+        <form action={saveCuration.bind(null, modelId)} className="flex flex-col gap-5">
+          <label className={labelClass}>
+            Listing
+            <select name="status" defaultValue={curation?.status ?? ""} className={fieldClass}>
+              <option value="">Follow exposure mode ({mode})</option>
+              <option value="allowed">Allowed</option>
+              <option value="blocked">Blocked</option>
+            </select>
+          </label>
+
+          <label className={labelClass}>
+            Display name
+            <input
+              name="display_name"
+              placeholder={model.display_name}
+              defaultValue={curation?.display_name ?? ""}
+              className={fieldClass}
+            />
+          </label>
+
+          <label className={labelClass}>
+            Description
+            <textarea
+              name="description"
+              rows={4}
+              placeholder={model.description ?? ""}
+              defaultValue={curation?.description ?? ""}
+              className={fieldClass}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className={labelClass}>
+              Featured rank
+              <input
+                name="featured_rank"
+                type="number"
+                min={0}
+                step={1}
+                placeholder="Not featured"
+                defaultValue={curation?.featured_rank ?? ""}
+                className={fieldClass}
+              />
+            </label>
+            <label className={labelClass}>
+              Price markup
+              <input
+                name="price_markup"
+                type="number"
+                min={0.001}
+                step={0.001}
+                defaultValue={curation?.price_markup ?? 1}
+                className={fieldClass}
+              />
+            </label>
+          </div>
+
+          <label className={labelClass}>
+            Default parameters (JSON)
+            <textarea
+              name="default_params"
+              rows={4}
+              defaultValue={JSON.stringify(curation?.default_params ?? {}, null, 2)}
+              className={`${fieldClass} font-mono`}
+            />
+          </label>
+
+          {model.parameters.length > 0 && (
+            <fieldset className="flex flex-col gap-2">
+              <legend className="mb-2 text-sm text-zinc-600 dark:text-zinc-400">
+                Hidden parameters
+              </legend>
+              {model.parameters.map(param => (
+                <label key={param.name} className="flex items-center gap-2 text-sm text-black dark:text-zinc-50">
+                  <input
+                    type="checkbox"
+                    name="hidden_params"
+                    value={param.name}
+                    defaultChecked={hidden.has(param.name)}
+                  />
+                  {param.uiLabel || param.name}
+                  {param.required && <span className="text-xs text-zinc-500">required</span>}
+                </label>
+              ))}
+            </fieldset>
+          )}
+
+          <label className={labelClass}>
+            Note
+            <input name="note" defaultValue={curation?.note ?? ""} className={fieldClass} />
+          </label>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="h-10 rounded-full bg-foreground px-5 text-sm font-medium text-background transition-colors hover:bg-[#383838] dark:hover:bg-[#ccc]"
+            >
+              Save curation
+            </button>
+            {curation && (
+              <button
+                type="submit"
+                formAction={removeCuration.bind(null, modelId)}
+                className="h-10 rounded-full border border-black/[.08] px-5 text-sm font-medium transition-colors hover:bg-black/[.04] dark:border-white/[.145]"
+              >
+                Remove curation
+              </button>
+            )}
+          </div>
+        </form>
+
+        <form action={saveTaskOverride.bind(null, modelId)} className="flex flex-col gap-5">
+          <div className="flex flex-col gap-1">
+            <h2 className="text-xl font-semibold text-black dark:text-zinc-50">Task classification</h2>
+            <p className="text-sm text-zinc-500">
+              Synced as {model.task_type}
+              {model.task_tags.length > 0 && ` · ${model.task_tags.join(", ")}`}. Overrides replace the
+              classifier from the next sync on.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className={labelClass}>
+              Task type
+              <select name="task_type" defaultValue={taskOverride?.taskType ?? ""} className={fieldClass}>
+                <option value="">Keep classified</option>
+                {TASK_TYPES.map(taskType => (
+                  <option key={taskType} value={taskType}>
+                    {taskType}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={labelClass}>
+              Task tags
+              <input
+                name="task_tags"
+                placeholder="Keep classified"
+                defaultValue={taskOverride?.tags?.join(", ") ?? ""}
+                className={fieldClass}
+              />
+            </label>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="h-10 rounded-full bg-foreground px-5 text-sm font-medium text-background transition-colors hover:bg-[#383838] dark:hover:bg-[#ccc]"
+            >
+              Save override
+            </button>
+            {taskOverride && (
+              <button
+                type="submit"
+                formAction={removeTaskOverride.bind(null, modelId)}
+                className="h-10 rounded-full border border-black/[.08] px-5 text-sm font-medium transition-colors hover:bg-black/[.04] dark:border-white/[.145]"
+              >
+                Remove override
+              </button>
+            )}
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use server";
+
+// ============================================================================
+// MODEL CURATION ACTIONS
+// Server actions behind the admin curation pages
+// ============================================================================
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { requireAdmin } from "@/lib/auth/admin";
+import {
+  CurationValidationError,
+  deleteModelCuration,
+  saveModelCuration,
+  setExposureMode,
+  type CurationStatus,
+  type ExposureMode,
+} from "@/lib/services/model-curation";
+import {
+  clearTaskOverride,
+  setTaskOverride,
+  TaskOverrideValidationError,
+} from "@/lib/services/task-overrides";
+import type { TaskType } from "@/lib/fal/types";
+
+function text(formData: FormData, key: string): string | null {
+  const value = formData.get(key);
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+}
+
+function editPath(modelId: string): string {
+  return `/admin/models/${modelId}`;
+}
+
+export async function updateExposureMode(formData: FormData) {
+  await requireAdmin();
+  const mode = text(formData, "exposure_mode");
+  if (mode !== "allowlist" && mode !== "blocklist") {
+    throw new Error(`Unknown exposure mode: ${mode}`);
+  }
+
+  await setExposureMode(mode as ExposureMode);
+  revalidatePath("/admin/models");
+}
+
+/**
+ * Save the edit form; validation errors come back in ?error=
+ */
+export async function saveCuration(modelId: string, formData: FormData) {
+  await requireAdmin();
+  const status = text(formData, "status");
+  const featuredRank = text(formData, "featured_rank");
+  const defaultParams = text(formData, "default_params");
+  let error: string | null = null;
+
+  try {
+    const parsedDefaults = defaultParams ? JSON.parse(defaultParams) : {};
+    if (parsedDefaults === null || typeof parsedDefaults !== "object" || Array.isArray(parsedDefaults)) {
+      throw new SyntaxError("Default params must be a JSON object");
+    }
+
+    await saveModelCuration(modelId, {
+      status: status === "allowed" || status === "blocked" ? (status as CurationStatus) : null,
+      display_name: text(formData, "display_name"),
+      description: text(formData, "description"),
+      featured_rank: featuredRank === null ? null : Number(featuredRank),
+      price_markup: Number(text(formData, "price_markup") ?? 1),
+      default_params: parsedDefaults,
+      hidden_params: formData.getAll("hidden_params").filter((name): name is string => typeof name === "string"),
+      note: text(formData, "note"),
+    });
+  } catch (saveError) {
+    if (!(saveError instanceof CurationValidationError) && !(saveError instanceof SyntaxError)) {
+      throw saveError;
+    }
+    error = saveError.message;
+  }
+
+  revalidatePath("/admin/models");
+  redirect(error ? `${editPath(modelId)}?error=${encodeURIComponent(error)}` : `${editPath(modelId)}?saved=1`);
+}
+
+export async function removeCuration(modelId: string) {
+  await requireAdmin();
+  await deleteModelCuration(modelId);
+  revalidatePath("/admin/models");
+  redirect(editPath(modelId));
+}
+
+/**
+ * Save the task override form; an empty field keeps the classified value
+ * Tags are comma separated; validation errors come back in ?error=
+ */
+export async function saveTaskOverride(modelId: string, formData: FormData) {
+  await requireAdmin();
+  const taskType = text(formData, "task_type");
+  const tags = text(formData, "task_tags");
+  let error: string | null = null;
+
+  try {
+    await setTaskOverride(modelId, {
+      taskType: taskType as TaskType | null,
+      tags: tags === null ? null : tags.split(","),
+    });
+  } catch (saveError) {
+    if (!(saveError instanceof TaskOverrideValidationError)) {
+      throw saveError;
+    }
+    error = saveError.message;
+  }
+
+  redirect(error ? `${editPath(modelId)}?error=${encodeURIComponent(error)}` : `${editPath(modelId)}?saved=override`);
+}
+
+export async function removeTaskOverride(modelId: string) {
+  await requireAdmin();
+  await clearTaskOverride(modelId);
+  redirect(editPath(modelId));
+}
@@ -0,0 +1,174 @@
+import Link from "next/link";
+import { requireAdmin } from "@/lib/auth/admin";
+import { searchModels } from "@/lib/services/model-catalog";
+import {
+  getExposureMode,
+  isModelExposed,
+  listCurations,
+} from "@/lib/services/model-curation";
+import { updateExposureMode } from "./actions";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function param(searchParams: SearchParams, key: string): string | undefined {
+  const value = searchParams[key];
+  const single = Array.isArray(value) ? value[0] : value;
+  return single === "" ? undefined : single;
+}
+
+const fieldClass =
+  "rounded-lg border border-black/[.08] bg-white px-3 py-2 text-sm text-black dark:border-white/[.145] dark:bg-zinc-900 dark:text-zinc-50";
+
+const buttonClass =
+  "h-10 rounded-full bg-foreground px-5 text-sm font-medium text-background transition-colors hover:bg-[#383838] dark:hover:bg-[#ccc]";
+
+export default async function AdminModelsPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  await requireAdmin();
+
+  const resolved = await searchParams;
+  const query = param(resolved, "q");
+  const page = Math.max(1, Number(param(resolved, "page")) || 1);
+
+  const [catalog, curations, mode] = await Promise.all([
+    searchModels({ query, page }),
+    listCurations(),
+    getExposureMode(),
+  ]);
+  const totalPages = Math.max(1, Math.ceil(catalog.total / catalog.pageSize));
+  const pageHref = (target: number) =>
+    `/admin/models?${new URLSearchParams({ ...(query ? { q: query } : {}), page: String(target) })}`;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+            Model curation
+          </h1>
+          <p className="max-w-3xl text-sm text-zinc-600 dark:text-zinc-400">
+            Choose which synced models users can run and how they appear. Curation is stored apart
+            from synced data, so FAL syncs never change it.
+          </p>
+        </div>
+
+        <form action={updateExposureMode} className="flex flex-wrap items-center gap-3">
+          <label htmlFor="exposure_mode" className="text-sm text-zinc-600 dark:text-zinc-400">
+            Uncurated models are
+          </label>
+          <select id="exposure_mode" name="exposure_mode" defaultValue={mode} className={fieldClass}>
+            <option value="allowlist">Hidden (allowlist)</option>
+            <option value="blocklist">Shown (blocklist)</option>
+          </select>
+          <button type="submit" className={buttonClass}>
+            Save
+          </button>
+        </form>
+
+        <form className="flex gap-3" method="get">
+          <input
+            name="q"
+            type="search"
+            placeholder="Search name or description"
+            defaultValue={query}
+            className={`${fieldClass} flex-1`}
+          />
+          <button type="submit" className={buttonClass}>
+            Search
+          </button>
+        </form>
+
+        <div className="overflow-x-auto rounded-lg border border-black/[.08] bg-white dark:border-white/[.145] dark:bg-zinc-950">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-black/[.08] text-zinc-500 dark:border-white/[.145]">
+              <tr>
+                <th className="px-4 py-3 font-medium">Model</th>
+                <th className="px-4 py-3 font-medium">Synced</th>
+                <th className="px-4 py-3 font-medium">Curation</th>
+                <th className="px-4 py-3 font-medium">Users</th>
+                <th className="px-4 py-3 text-right font-medium">Featured</th>
+                <th className="px-4 py-3 text-right font-medium">Markup</th>
+              </tr>
+            </thead>
+            <tbody>
+              {catalog.models.map(model => {
+                const curation = curations.get(model.id);
+                const exposed = isModelExposed(model.is_active, curation?.status, mode);
+
+                return (
+                  <tr
+                    key={model.id}
+                    className="border-b border-black/[.04] last:border-0 dark:border-white/[.08]"
+                  >
+                    <td className="px-4 py-3">
+                      <Link
+                        href={`/admin/models/${model.id}`}
+                        className="font-medium text-black hover:underline dark:text-zinc-50"
+                      >
+                        {curation?.display_name ?? model.display_name}
+                      </Link>
+                      <div className="text-xs text-zinc-500">{model.id}</div>
+                    </td>
+                    <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">
+                      {model.is_active ? "Active" : "Inactive"}
+                    </td>
+                    <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">
+                      {curation ? curation.status ?? "Curated" : "—"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {exposed ? (
+                        <span className="text-green-700 dark:text-green-400">Visible</span>
+                      ) : (
+                        <span className="text-zinc-500">Hidden</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums text-zinc-700 dark:text-zinc-300">
+                      {curation?.featured_rank ?? "—"}
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums text-zinc-700 dark:text-zinc-300">
+                      {curation ? `×${curation.price_markup}` : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+              {catalog.models.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-zinc-500">
+                    No models match this search.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {totalPages > 1 && (
+          <nav className="flex items-center justify-between text-sm">
+            {catalog.page > 1 ? (
+              <Link href={pageHref(catalog.page - 1)} className="hover:underline">
+                ← Previous
+              </Link>
+            ) : (
+              <span />
+            )}
+            <span className="text-zinc-500">
+              Page {catalog.page} of {totalPages}
+            </span>
+            {catalog.page < totalPages ? (
+              <Link href={pageHref(catalog.page + 1)} className="hover:underline">
+                Next →
+              </Link>
+            ) : (
+              <span />
+            )}
+          </nav>
+        )}
+      </main>
+    </div>
+  );
+}
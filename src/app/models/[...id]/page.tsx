@@ -0,0 +1,209 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import ModelParameterForm from "@/components/model-parameter-form";
+import { requireAdmin } from "@/lib/auth/admin";
+import { GenerationJobService } from "@/lib/services/generation-jobs";
+import { getModelDetail } from "@/lib/services/model-catalog";
+import { getModelCuration, visibleParameters } from "@/lib/services/model-curation";
+import type { ParsedParameter } from "@/lib/fal/types";
+import { quoteModel, startGeneration } from "../actions";
+
+export const dynamic = "force-dynamic";
+
+function formatUsd(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `$${Number(value).toFixed(4)}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function formatConstraints(param: ParsedParameter): string {
+  if (param.allowedValues?.length) return param.allowedValues.join(", ");
+  const hasMin = param.minValue !== null && param.minValue !== undefined;
+  const hasMax = param.maxValue !== null && param.maxValue !== undefined;
+  if (!hasMin && !hasMax) return "—";
+  return `${hasMin ? param.minValue : "−∞"} – ${hasMax ? param.maxValue : "∞"}`;
+}
+
+export default async function ModelDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string[] }>;
+}) {
+  const user = await requireAdmin();
+
+  const { id } = await params;
+  // Model ids contain slashes (fal-ai/flux/dev), hence the catch-all segment
+  const modelId = id.map(decodeURIComponent).join("/");
+  const [model, curation, generations] = await Promise.all([
+    getModelDetail(modelId),
+    getModelCuration(modelId),
+    new GenerationJobService().listGenerations(user.id, { limit: 20 }),
+  ]);
+
+  if (!model) {
+    notFound();
+  }
+
+  const pricingDetails = Object.entries(model.pricing_details ?? {});
+  // What users get: curated defaults applied, hidden params left out
+  const formParameters = visibleParameters(model.parameters, curation);
+  const recentRuns = generations.filter(generation => generation.model_id === model.id).slice(0, 5);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-12">
+        <div className="flex flex-col gap-2">
+          <Link href="/models" className="text-sm text-zinc-500 hover:underline">
+            ← Model catalog
+          </Link>
+          <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+            {model.display_name}
+          </h1>
+          <p className="text-sm text-zinc-500">{model.id}</p>
+          {model.task_tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {model.task_tags.map(tag => (
+                <Link
+                  key={tag}
+                  href={`/models?tag=${encodeURIComponent(tag)}`}
+                  className="rounded-full border border-black/[.08] px-2.5 py-0.5 text-xs text-zinc-600 hover:bg-black/[.04] dark:border-white/[.145] dark:text-zinc-400"
+                >
+                  {tag}
+                </Link>
+              ))}
+            </div>
+          )}
+          {model.description && (
+            <p className="max-w-3xl text-base leading-7 text-zinc-600 dark:text-zinc-400">
+              {model.description}
+            </p>
+          )}
+        </div>
+
+        <section className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {[
+            ["Task type", model.task_type],
+            ["Category", model.category ?? "—"],
+            ["Status", model.is_active ? "Active" : "Inactive"],
+            ["Updated", new Date(model.updated_at).toLocaleString()],
+          ].map(([label, value]) => (
+            <div
+              key={label}
+              className="rounded-lg border border-black/[.08] bg-white p-4 dark:border-white/[.145] dark:bg-zinc-950"
+            >
+              <div className="text-xs uppercase tracking-wide text-zinc-500">{label}</div>
+              <div className="mt-1 font-medium text-black dark:text-zinc-50">{value}</div>
+            </div>
+          ))}
+        </section>
+
+        <section className="flex flex-col gap-3">
+          <h2 className="text-xl font-semibold text-black dark:text-zinc-50">Pricing</h2>
+          <dl className="grid grid-cols-2 gap-x-8 gap-y-2 rounded-lg border border-black/[.08] bg-white p-4 text-sm dark:border-white/[.145] dark:bg-zinc-950 sm:grid-cols-3">
+            <dt className="text-zinc-500">Price per call</dt>
+            <dd className="tabular-nums sm:col-span-2">{formatUsd(model.price_per_call)}</dd>
+            <dt className="text-zinc-500">Range</dt>
+            <dd className="tabular-nums sm:col-span-2">
+              {formatUsd(model.min_price)} – {formatUsd(model.max_price)}
+            </dd>
+            <dt className="text-zinc-500">Pricing type</dt>
+            <dd className="sm:col-span-2">{model.pricing_type ?? "—"}</dd>
+            <dt className="text-zinc-500">Credit cost</dt>
+            <dd className="tabular-nums sm:col-span-2">{model.credit_cost ?? "—"}</dd>
+            {pricingDetails.map(([key, value]) => (
+              <div key={key} className="contents">
+                <dt className="text-zinc-500">{key}</dt>
+                <dd className="sm:col-span-2">{formatValue(value)}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+
+        <section className="flex flex-col gap-3">
+          <h2 className="text-xl font-semibold text-black dark:text-zinc-50">
+            Parameters ({model.parameters.length})
+          </h2>
+          <div className="overflow-x-auto rounded-lg border border-black/[.08] bg-white dark:border-white/[.145] dark:bg-zinc-950">
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-black/[.08] text-zinc-500 dark:border-white/[.145]">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Name</th>
+                  <th className="px-4 py-3 font-medium">Type</th>
+                  <th className="px-4 py-3 font-medium">Required</th>
+                  <th className="px-4 py-3 font-medium">Default</th>
+                  <th className="px-4 py-3 font-medium">Range / values</th>
+                  <th className="px-4 py-3 font-medium">Group</th>
+                </tr>
+              </thead>
+              <tbody>
+                {model.parameters.map(param => (
+                  <tr
+                    key={param.name}
+                    className="border-b border-black/[.04] align-top last:border-0 dark:border-white/[.08]"
+                  >
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-black dark:text-zinc-50">{param.name}</div>
+                      {param.uiHelpText && (
+                        <div className="mt-1 max-w-sm text-xs text-zinc-500">{param.uiHelpText}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">{param.type}</td>
+                    <td className="px-4 py-3">{param.required ? "Yes" : "No"}</td>
+                    <td className="px-4 py-3">{formatValue(param.defaultValue)}</td>
+                    <td className="px-4 py-3">
+                      {formatConstraints(param)}
+                    </td>
+                    <td className="px-4 py-3">{param.uiGroup ?? "—"}</td>
+                  </tr>
+                ))}
+                {model.parameters.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-zinc-500">
+                      No parameters parsed for this model.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        {formParameters.length > 0 && (
+          <section className="flex flex-col gap-3">
+            <h2 className="text-xl font-semibold text-black dark:text-zinc-50">Try it</h2>
+            <div className="rounded-lg border border-black/[.08] bg-white p-6 dark:border-white/[.145] dark:bg-zinc-950">
+              <ModelParameterForm
+                parameters={formParameters}
+                onQuote={quoteModel.bind(null, model.id)}
+                onSubmit={startGeneration.bind(null, model.id)}
+              />
+            </div>
+            {recentRuns.length > 0 && (
+              <ul className="flex flex-col gap-2 text-sm">
+                {recentRuns.map(generation => (
+                  <li
+                    key={generation.id}
+                    className="flex flex-wrap items-center gap-3 rounded-lg border border-black/[.08] bg-white px-4 py-3 dark:border-white/[.145] dark:bg-zinc-950"
+                  >
+                    <span className="font-medium text-black dark:text-zinc-50">{generation.status}</span>
+                    <span className="text-zinc-500">{new Date(generation.created_at).toLocaleString()}</span>
+                    <span className="tabular-nums text-zinc-500">{generation.credit_cost} credits</span>
+                    {generation.output_urls.map(url => (
+                      <a key={url} href={url} target="_blank" rel="noreferrer" className="text-zinc-600 hover:underline dark:text-zinc-400">
+                        Output
+                      </a>
+                    ))}
+                    {generation.error && <span className="text-red-600">{generation.error}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
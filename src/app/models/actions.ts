@@ -0,0 +1,39 @@
+"use server";
+
+// ============================================================================
+// MODEL CATALOG ACTIONS
+// Server actions behind the try-it form on the model detail page
+// ============================================================================
+
+import { revalidatePath } from "next/cache";
+import { after } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import { quoteGenerationCost, type CostQuote } from "@/lib/services/cost-estimation";
+import { GenerationJobService } from "@/lib/services/generation-jobs";
+
+function detailPath(modelId: string): string {
+  return `/models/${modelId}`;
+}
+
+export async function quoteModel(
+  modelId: string,
+  params: Record<string, unknown>
+): Promise<CostQuote> {
+  await requireAdmin();
+  return quoteGenerationCost(modelId, params);
+}
+
+/**
+ * Queue a generation for the signed-in admin and run it after the response
+ * Errors from createGeneration (bad input, no price, not enough credits)
+ * reach the form
+ */
+export async function startGeneration(modelId: string, params: Record<string, unknown>) {
+  const user = await requireAdmin();
+  const service = new GenerationJobService();
+
+  const generation = await service.createGeneration({ userId: user.id, modelId, input: params });
+  after(() => service.runGeneration(generation.id));
+
+  revalidatePath(detailPath(modelId));
+}
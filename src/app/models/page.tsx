@@ -0,0 +1,236 @@
+import Link from "next/link";
+import { requireAdmin } from "@/lib/auth/admin";
+import {
+  listCategories,
+  searchModels,
+  type CatalogFilters,
+  type CatalogSort,
+} from "@/lib/services/model-catalog";
+import type { TaskType } from "@/lib/fal/types";
+
+export const dynamic = "force-dynamic";
+
+const TASK_TYPES: TaskType[] = ["IMAGE", "VIDEO", "AUDIO", "TEXT", "MULTIMODAL"];
+
+const SORTS: Array<{ value: CatalogSort; label: string }> = [
+  { value: "name", label: "Name" },
+  { value: "price_asc", label: "Price: low to high" },
+  { value: "price_desc", label: "Price: high to low" },
+  { value: "updated", label: "Recently updated" },
+];
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function param(searchParams: SearchParams, key: string): string | undefined {
+  const value = searchParams[key];
+  const single = Array.isArray(value) ? value[0] : value;
+  return single === "" ? undefined : single;
+}
+
+function numberParam(searchParams: SearchParams, key: string): number | undefined {
+  const value = param(searchParams, key);
+  if (value === undefined) return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+function parseFilters(searchParams: SearchParams): CatalogFilters {
+  const taskType = param(searchParams, "task_type");
+  const active = param(searchParams, "active");
+  const sort = param(searchParams, "sort");
+
+  return {
+    query: param(searchParams, "q"),
+    taskType: TASK_TYPES.includes(taskType as TaskType) ? (taskType as TaskType) : undefined,
+    taskTag: param(searchParams, "tag"),
+    category: param(searchParams, "category"),
+    isActive: active === "true" ? true : active === "false" ? false : undefined,
+    minCredits: numberParam(searchParams, "min_credits"),
+    maxCredits: numberParam(searchParams, "max_credits"),
+    sort: SORTS.some(option => option.value === sort) ? (sort as CatalogSort) : undefined,
+    page: numberParam(searchParams, "page"),
+  };
+}
+
+function pageHref(searchParams: SearchParams, page: number): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    const single = Array.isArray(value) ? value[0] : value;
+    if (single && key !== "page") params.set(key, single);
+  }
+  params.set("page", String(page));
+  return `/models?${params.toString()}`;
+}
+
+const fieldClass =
+  "rounded-lg border border-black/[.08] bg-white px-3 py-2 text-sm text-black dark:border-white/[.145] dark:bg-zinc-900 dark:text-zinc-50";
+
+export default async function ModelsPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  // Unfiltered catalog with raw pricing, for the team picking models to expose
+  await requireAdmin();
+
+  const resolved = await searchParams;
+  const filters = parseFilters(resolved);
+  const [catalog, categories] = await Promise.all([searchModels(filters), listCategories()]);
+  const totalPages = Math.max(1, Math.ceil(catalog.total / catalog.pageSize));
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+          Model catalog
+        </h1>
+
+        <form className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4" method="get">
+          {filters.taskTag && <input type="hidden" name="tag" value={filters.taskTag} />}
+          <input
+            name="q"
+            type="search"
+            placeholder="Search name or description"
+            defaultValue={filters.query}
+            className={`${fieldClass} lg:col-span-2`}
+          />
+          <select name="task_type" defaultValue={filters.taskType ?? ""} className={fieldClass}>
+            <option value="">All task types</option>
+            {TASK_TYPES.map(type => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <select name="category" defaultValue={filters.category ?? ""} className={fieldClass}>
+            <option value="">All categories</option>
+            {categories.map(category => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+          <select
+            name="active"
+            defaultValue={filters.isActive === undefined ? "" : String(filters.isActive)}
+            className={fieldClass}
+          >
+            <option value="">Active and inactive</option>
+            <option value="true">Active only</option>
+            <option value="false">Inactive only</option>
+          </select>
+          <input
+            name="min_credits"
+            type="number"
+            min={0}
+            placeholder="Min credits"
+            defaultValue={filters.minCredits}
+            className={fieldClass}
+          />
+          <input
+            name="max_credits"
+            type="number"
+            min={0}
+            placeholder="Max credits"
+            defaultValue={filters.maxCredits}
+            className={fieldClass}
+          />
+          <select name="sort" defaultValue={filters.sort ?? "name"} className={fieldClass}>
+            {SORTS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="h-10 rounded-full bg-foreground px-5 text-sm font-medium text-background transition-colors hover:bg-[#383838] dark:hover:bg-[#ccc] lg:col-start-4"
+          >
+            Apply
+          </button>
+        </form>
+
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          {catalog.total} models
+        </p>
+
+        <div className="overflow-x-auto rounded-lg border border-black/[.08] bg-white dark:border-white/[.145] dark:bg-zinc-950">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-black/[.08] text-zinc-500 dark:border-white/[.145]">
+              <tr>
+                <th className="px-4 py-3 font-medium">Model</th>
+                <th className="px-4 py-3 font-medium">Task</th>
+                <th className="px-4 py-3 font-medium">Category</th>
+                <th className="px-4 py-3 text-right font-medium">Price</th>
+                <th className="px-4 py-3 text-right font-medium">Credits</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {catalog.models.map(model => (
+                <tr
+                  key={model.id}
+                  className="border-b border-black/[.04] last:border-0 dark:border-white/[.08]"
+                >
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/models/${model.id}`}
+                      className="font-medium text-black hover:underline dark:text-zinc-50"
+                    >
+                      {model.display_name}
+                    </Link>
+                    <div className="text-xs text-zinc-500">{model.id}</div>
+                  </td>
+                  <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">{model.task_type}</td>
+                  <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">{model.category ?? "—"}</td>
+                  <td className="px-4 py-3 text-right tabular-nums text-zinc-700 dark:text-zinc-300">
+                    {model.price_per_call === null ? "—" : `$${Number(model.price_per_call).toFixed(4)}`}
+                  </td>
+                  <td className="px-4 py-3 text-right tabular-nums text-zinc-700 dark:text-zinc-300">
+                    {model.credit_cost ?? "—"}
+                  </td>
+                  <td className="px-4 py-3">
+                    {model.is_active ? (
+                      <span className="text-green-700 dark:text-green-400">Active</span>
+                    ) : (
+                      <span className="text-zinc-500">Inactive</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {catalog.models.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-zinc-500">
+                    No models match these filters.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {totalPages > 1 && (
+          <nav className="flex items-center justify-between text-sm">
+            {catalog.page > 1 ? (
+              <Link href={pageHref(resolved, catalog.page - 1)} className="hover:underline">
+                ← Previous
+              </Link>
+            ) : (
+              <span />
+            )}
+            <span className="text-zinc-500">
+              Page {catalog.page} of {totalPages}
+            </span>
+            {catalog.page < totalPages ? (
+              <Link href={pageHref(resolved, catalog.page + 1)} className="hover:underline">
+                Next →
+              </Link>
+            ) : (
+              <span />
+            )}
+          </nav>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+"use client";
+
+// ============================================================================
+// MODEL PARAMETER FORM
+// Renders a generation form for any synced model from its parameter metadata
+// ============================================================================
+
+import { useEffect, useState, type FormEvent } from "react";
+import { validateParameters } from "@/lib/fal/parameter-validator";
+import type { ParameterFieldError, ParsedParameter } from "@/lib/fal/types";
+import type { CostQuote } from "@/lib/services/cost-estimation";
+
+type FieldKind =
+  | "select"
+  | "toggle"
+  | "slider"
+  | "number"
+  | "prompt"
+  | "media"
+  | "json"
+  | "text";
+
+interface ModelParameterFormProps {
+  parameters: ParsedParameter[];
+  initialValues?: Record<string, unknown>;
+  submitLabel?: string;
+  disabled?: boolean;
+  onSubmit: (params: Record<string, unknown>) => void | Promise<void>;
+  /**
+   * Upload a file and return a URL FAL can fetch
+   * Defaults to inlining the file as a data URI
+   */
+  onUploadFile?: (file: File) => Promise<string>;
+  /**
+   * Price the current params, e.g. via quoteGenerationCost on the server
+   * Called whenever the form holds valid params; rejections are shown
+   */
+  onQuote?: (params: Record<string, unknown>) => Promise<CostQuote>;
+}
+
+const DEFAULT_GROUP = "General";
+// Wait for typing to pause before asking for a new quote
+const QUOTE_DELAY_MS = 400;
+
+/**
+ * Pick the input control for a parameter
+ */
+function fieldKind(param: ParsedParameter): FieldKind {
+  const type = (param.type || "").toLowerCase();
+  const name = param.name.toLowerCase();
+
+  if (param.allowedValues && param.allowedValues.length > 0) return "select";
+  if (type === "boolean" || type === "bool") return "toggle";
+  if (type === "integer" || type === "int" || type === "number" || type === "float") {
+    const bounded =
+      param.minValue !== null && param.minValue !== undefined &&
+      param.maxValue !== null && param.maxValue !== undefined;
+    return bounded ? "slider" : "number";
+  }
+  if (type === "array" || type === "object") return "json";
+  if (name.includes("prompt")) return "prompt";
+  if (/(^|_)(image|video|audio|mask)(_url|_urls)?$/.test(name) || name.endsWith("_url")) {
+    return "media";
+  }
+  return "text";
+}
+
+/**
+ * Group parameters by ui_group and sort each group by ui_order
+ */
+function groupParameters(parameters: ParsedParameter[]): Array<[string, ParsedParameter[]]> {
+  const groups = new Map<string, ParsedParameter[]>();
+
+  const sorted = [...parameters].sort(
+    (a, b) => (a.uiOrder ?? Number.MAX_SAFE_INTEGER) - (b.uiOrder ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  for (const param of sorted) {
+    const group = param.uiGroup || DEFAULT_GROUP;
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(param);
+  }
+
+  return Array.from(groups.entries());
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Initial form values: explicit values first, then parameter defaults
+ * Sliders always show a value, so one without a default starts at its minimum
+ */
+function initialFormValues(
+  parameters: ParsedParameter[],
+  initialValues: Record<string, unknown>
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const param of parameters) {
+    const kind = fieldKind(param);
+    const value =
+      initialValues[param.name] ?? param.defaultValue ?? (kind === "slider" ? param.minValue : undefined);
+    if (value === undefined || value === null) continue;
+    values[param.name] =
+      kind === "json" && typeof value !== "string"
+        ? JSON.stringify(value, null, 2)
+        : value;
+  }
+  return values;
+}
+
+const inputClass =
+  "w-full rounded-lg border border-black/[.08] bg-white px-3 py-2 text-sm text-black outline-none focus:border-zinc-400 dark:border-white/[.145] dark:bg-zinc-900 dark:text-zinc-50";
+
+interface FieldProps {
+  param: ParsedParameter;
+  value: unknown;
+  disabled?: boolean;
+  onChange: (value: unknown) => void;
+  onUploadFile: (file: File) => Promise<string>;
+}
+
+function ParameterField({ param, value, disabled, onChange, onUploadFile }: FieldProps) {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const id = `param-${param.name}`;
+
+  switch (fieldKind(param)) {
+    case "select":
+      return (
+        <select
+          id={id}
+          className={inputClass}
+          disabled={disabled}
+          value={value === undefined || value === null ? "" : String(value)}
+          onChange={event => onChange(event.target.value)}
+        >
+          {!param.required && <option value="">—</option>}
+          {param.allowedValues!.map(option => (
+            <option key={String(option)} value={String(option)}>
+              {String(option)}
+            </option>
+          ))}
+        </select>
+      );
+
+    case "toggle": {
+      const checked = value === true || value === "true";
+      return (
+        <button
+          id={id}
+          type="button"
+          role="switch"
+          aria-checked={checked}
+          disabled={disabled}
+          onClick={() => onChange(!checked)}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+            checked ? "bg-foreground" : "bg-zinc-300 dark:bg-zinc-700"
+          }`}
+        >
+          <span
+            className={`inline-block h-5 w-5 rounded-full bg-background transition-transform ${
+              checked ? "translate-x-5" : "translate-x-0.5"
+            }`}
+          />
+        </button>
+      );
+    }
+
+    case "slider": {
+      const integer = ["integer", "int"].includes((param.type || "").toLowerCase());
+      const min = param.minValue as number;
+      const max = param.maxValue as number;
+      const step = integer ? 1 : (max - min) / 100 || 0.01;
+      const current = value === undefined || value === null || value === "" ? min : Number(value);
+      return (
+        <div className="flex items-center gap-3">
+          <input
+            id={id}
+            type="range"
+            className="w-full accent-foreground"
+            disabled={disabled}
+            min={min}
+            max={max}
+            step={step}
+            value={current}
+            onChange={event => onChange(Number(event.target.value))}
+          />
+          <input
+            type="number"
+            aria-label={`${param.uiLabel || param.name} value`}
+            className={`${inputClass} w-24`}
+            disabled={disabled}
+            min={min}
+            max={max}
+            step={step}
+            value={current}
+            onChange={event => onChange(event.target.value === "" ? min : Number(event.target.value))}
+          />
+        </div>
+      );
+    }
+
+    case "number":
+      return (
+        <input
+          id={id}
+          type="number"
+          className={inputClass}
+          disabled={disabled}
+          placeholder={param.uiPlaceholder || undefined}
+          min={param.minValue ?? undefined}
+          max={param.maxValue ?? undefined}
+          value={value === undefined || value === null ? "" : String(value)}
+          onChange={event => onChange(event.target.value === "" ? undefined : Number(event.target.value))}
+        />
+      );
+
+    case "prompt":
+    case "json":
+      return (
+        <textarea
+          id={id}
+          className={`${inputClass} min-h-28 ${fieldKind(param) === "json" ? "font-mono" : ""}`}
+          disabled={disabled}
+          placeholder={param.uiPlaceholder || undefined}
+          value={value === undefined || value === null ? "" : String(value)}
+          onChange={event => onChange(event.target.value)}
+        />
+      );
+
+    case "media": {
+      const url = typeof value === "string" ? value : "";
+      const isImage = url.startsWith("data:image/") || /\.(png|jpe?g|webp|gif)(\?|$)/i.test(url);
+      return (
+        <div className="flex flex-col gap-2">
+          <input
+            id={id}
+            type="url"
+            className={inputClass}
+            disabled={disabled || uploading}
+            placeholder={param.uiPlaceholder || "https://"}
+            value={url.startsWith("data:") ? "" : url}
+            onChange={event => onChange(event.target.value)}
+          />
+          <input
+            type="file"
+            aria-label={`Upload ${param.uiLabel || param.name}`}
+            className="text-sm text-zinc-600 dark:text-zinc-400"
+            disabled={disabled || uploading}
+            onChange={async event => {
+              const file = event.target.files?.[0];
+              if (!file) return;
+              setUploading(true);
+              setUploadError(null);
+              try {
+                onChange(await onUploadFile(file));
+              } catch (error) {
+                setUploadError(error instanceof Error ? error.message : "Upload failed");
+              } finally {
+                setUploading(false);
+              }
+            }}
+          />
+          {uploading && <p className="text-sm text-zinc-500">Uploading…</p>}
+          {uploadError && <p className="text-xs text-red-600">{uploadError}</p>}
+          {isImage && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={url} alt="" className="max-h-40 w-fit rounded-lg border border-black/[.08] dark:border-white/[.145]" />
+          )}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <input
+          id={id}
+          type="text"
+          className={inputClass}
+          disabled={disabled}
+          placeholder={param.uiPlaceholder || undefined}
+          value={value === undefined || value === null ? "" : String(value)}
+          onChange={event => onChange(event.target.value)}
+        />
+      );
+  }
+}
+
+export default function ModelParameterForm({
+  parameters,
+  initialValues = {},
+  submitLabel = "Generate",
+  disabled,
+  onSubmit,
+  onUploadFile = readFileAsDataUrl,
+  onQuote,
+}: ModelParameterFormProps) {
+  const [values, setValues] = useState<Record<string, unknown>>(() =>
+    initialFormValues(parameters, initialValues)
+  );
+  const [errors, setErrors] = useState<ParameterFieldError[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [quote, setQuote] = useState<CostQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!onQuote) return;
+
+    const result = validateParameters(parameters, values, { unknownParameters: "strip" });
+    if (!result.valid) {
+      setQuote(null);
+      setQuoteError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      onQuote(result.params)
+        .then(next => {
+          if (cancelled) return;
+          setQuote(next);
+          setQuoteError(null);
+        })
+        .catch(error => {
+          if (cancelled) return;
+          setQuote(null);
+          setQuoteError(error instanceof Error ? error.message : "Price unavailable");
+        });
+    }, QUOTE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [parameters, values, onQuote]);
+
+  const errorFor = (name: string) => errors.find(error => error.field === name);
+
+  const handleChange = (name: string, value: unknown) => {
+    setValues(current => ({ ...current, [name]: value }));
+    setErrors(current => current.filter(error => error.field !== name));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const result = validateParameters(parameters, values, { unknownParameters: "strip" });
+    if (!result.valid) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setErrors([]);
+    setSubmitError(null);
+    setSubmitting(true);
+    try {
+      await onSubmit(result.params);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Submission failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex w-full flex-col gap-8" noValidate>
+      {groupParameters(parameters).map(([group, groupParams]) => (
+        <fieldset key={group} className="flex flex-col gap-5">
+          <legend className="mb-2 text-sm font-semibold uppercase tracking-wide text-zinc-500">
+            {group}
+          </legend>
+          {groupParams.map(param => {
+            const error = errorFor(param.name);
+            return (
+              <div key={param.name} className="flex flex-col gap-1.5">
+                <label
+                  htmlFor={`param-${param.name}`}
+                  className="text-sm font-medium text-black dark:text-zinc-50"
+                >
+                  {param.uiLabel || param.name}
+                  {param.required && <span className="text-red-600"> *</span>}
+                </label>
+                <ParameterField
+                  param={param}
+                  value={values[param.name]}
+                  disabled={disabled || submitting}
+                  onChange={value => handleChange(param.name, value)}
+                  onUploadFile={onUploadFile}
+                />
+                {param.uiHelpText && !error && (
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">{param.uiHelpText}</p>
+                )}
+                {error && <p className="text-xs text-red-600">{error.message}</p>}
+              </div>
+            );
+          })}
+        </fieldset>
+      ))}
+
+      {onQuote && (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400" aria-live="polite">
+          {quote ? (
+            <>
+              {quote.confidence === "exact" ? "" : "≈ "}
+              <span className="font-medium text-black dark:text-zinc-50">
+                {quote.credits} {quote.credits === 1 ? "credit" : "credits"}
+              </span>{" "}
+              (${quote.priceUsd.toFixed(4)})
+              {quote.confidence === "historical" && " · based on average past cost"}
+            </>
+          ) : quoteError ? (
+            <span className="text-red-600">{quoteError}</span>
+          ) : (
+            "Fill in the required fields to see the cost"
+          )}
+        </p>
+      )}
+
+      {submitError && (
+        <p className="text-sm text-red-600" role="alert">
+          {submitError}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={disabled || submitting || (!!onQuote && !!quoteError)}
+        className="flex h-12 w-full items-center justify-center rounded-full bg-foreground px-5 text-background transition-colors hover:bg-[#383838] disabled:opacity-50 dark:hover:bg-[#ccc] md:w-[158px]"
+      >
+        {submitting ? "Submitting…" : submitLabel}
+      </button>
+    </form>
+  );
+}
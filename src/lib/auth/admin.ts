@@ -0,0 +1,38 @@
+// ============================================================================
+// ADMIN AUTH
+// Guards the admin pages and server actions: the request must come from a
+// signed-in user with the admin role
+// ============================================================================
+
+import type { User } from '@supabase/supabase-js';
+import { createSessionClient } from '../supabase/server';
+
+/**
+ * Thrown when an admin page or action is requested by anyone but an admin
+ */
+export class AdminAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdminAuthError';
+  }
+}
+
+/**
+ * The signed-in admin; throws AdminAuthError otherwise
+ * The role lives in app_metadata, which only the service role can write,
+ * and getUser verifies the session with Supabase Auth instead of trusting
+ * the cookie
+ */
+export async function requireAdmin(): Promise<User> {
+  const supabase = await createSessionClient();
+  const { data, error } = await supabase.auth.getUser();
+
+  if (error || !data.user) {
+    throw new AdminAuthError('Sign in as an admin to continue');
+  }
+  if (data.user.app_metadata?.role !== 'admin') {
+    throw new AdminAuthError('Admin role required');
+  }
+
+  return data.user;
+}
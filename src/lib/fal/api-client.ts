@@ -4,32 +4,71 @@
 
 import {
   FalModel,
+  FalPricingItem,
   FalPricingResponse,
+  FalPricingResult,
   FalEstimateRequest,
   FalEstimateResponse,
   FalApiError,
+  FalClientOptions,
+  FalQueueSubmitResponse,
+  FalQueueStatusResponse,
+  FalQueueCancelResponse,
+  FalQueueResult,
+  FalQueueLog,
+  FalQueueOptions,
+  FalSubmitOptions,
 } from './types';
+import { RequestScheduler, parseRetryAfter } from './scheduler';
+import {
+  FalError,
+  FalInvalidResponseError,
+  FalNotFoundError,
+  FalTimeoutError,
+  FalValidationError,
+  falErrorFromResponse,
+} from './errors';
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_QUEUE_TIMEOUT = 10 * 60 * 1000;
 
 export class FalApiClient {
   private apiKey: string;
   private baseUrl: string = 'https://api.fal.ai';
+  private queueUrl: string = 'https://queue.fal.run';
+  private schemaUrl: string = 'https://fal.ai/api/openapi/queue/openapi.json';
+  private scheduler: RequestScheduler;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, options: FalClientOptions = {}) {
     this.apiKey = apiKey || process.env.FAL_KEY || '';
 
     if (!this.apiKey) {
       throw new Error('FAL_KEY is required. Set it in environment variables or pass to constructor.');
     }
+
+    this.baseUrl = options.baseUrl || process.env.FAL_API_URL || this.baseUrl;
+    this.queueUrl = options.queueUrl || process.env.FAL_QUEUE_URL || this.queueUrl;
+    this.schemaUrl = options.schemaUrl || process.env.FAL_SCHEMA_URL || this.schemaUrl;
+
+    const envNumber = (name: string) => (process.env[name] ? Number(process.env[name]) : undefined);
+    this.scheduler = new RequestScheduler({
+      ...options,
+      concurrency: options.concurrency ?? envNumber('FAL_CONCURRENCY'),
+      requestsPerSecond: options.requestsPerSecond ?? envNumber('FAL_REQUESTS_PER_SECOND'),
+    });
   }
 
   /**
    * Make authenticated request to FAL API
+   * Endpoints starting with http(s) are used as-is (e.g. queue URLs).
+   * Goes through the scheduler, which handles rate limits and retries.
+   * Failures throw a FalError subclass (see ./errors).
    */
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
+    const url = /^https?:\/\//.test(endpoint) ? endpoint : `${this.baseUrl}${endpoint}`;
 
     const headers = {
       'Authorization': `Key ${this.apiKey}`,
@@ -37,36 +76,17 @@ export class FalApiClient {
       ...options.headers,
     };
 
-    console.log(`📡 FAL API Request: ${options.method || 'GET'} ${url}`);
+    const method = options.method || 'GET';
+    console.log(`📡 FAL API Request: ${method} ${url}`);
 
     try {
-      const response = await fetch(url, {
+      const response = await this.scheduler.fetch(url, {
         ...options,
         headers,
       });
 
       if (!response.ok) {
-        const errorText = await response.text();
-        let errorData: FalApiError;
-
-        try {
-          errorData = JSON.parse(errorText);
-        } catch {
-          errorData = {
-            code: `HTTP_${response.status}`,
-            message: errorText || response.statusText,
-          };
-        }
-
-        console.error(`❌ FAL API Error Details:`, {
-          status: response.status,
-          url,
-          error: errorData,
-        });
-
-        throw new Error(
-          `FAL API Error (${response.status}): ${errorData.message || errorData.code}`
-        );
+        throw await this.responseError(response, url, method);
       }
 
       const data = await response.json();
@@ -79,6 +99,35 @@ export class FalApiClient {
     }
   }
 
+  /**
+   * Typed error for a failed response, with the FAL error body if there is one
+   */
+  private async responseError(response: Response, url: string, method: string): Promise<FalError> {
+    const errorText = await response.text().catch(() => '');
+    let errorData: FalApiError;
+
+    try {
+      errorData = JSON.parse(errorText);
+    } catch {
+      errorData = {
+        code: `HTTP_${response.status}`,
+        message: errorText || response.statusText,
+      };
+    }
+
+    console.error(`❌ FAL API Error Details:`, {
+      status: response.status,
+      url,
+      error: errorData,
+    });
+
+    return falErrorFromResponse(response.status, errorData, {
+      url,
+      method,
+      retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+
   /**
    * Fetch all available models from FAL AI
    * GET /v1/models
@@ -124,7 +173,7 @@ export class FalApiClient {
 
         } catch (pageError) {
           // If expand parameter fails, retry without it
-          if (includeSchemas && pageError instanceof Error && pageError.message.includes('400')) {
+          if (includeSchemas && pageError instanceof FalValidationError) {
             console.warn('⚠️ OpenAPI expand not supported, retrying without schemas...');
             return this.fetchModels(false);
           }
@@ -143,12 +192,14 @@ export class FalApiClient {
       return allModels;
     } catch (error) {
       console.error('❌ Failed to fetch models:', error);
+      // Keep the typed error so callers can tell e.g. auth from network failures
+      if (error instanceof FalError) throw error;
       throw new Error(`Failed to fetch models: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Sleep utility for rate limiting
+   * Sleep utility
    */
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
@@ -202,83 +253,85 @@ export class FalApiClient {
   }
 
   /**
-   * Fetch pricing data for all models with rate limiting
+   * Fetch pricing data for all models
    * GET /v1/models/pricing
+   * Batches run in parallel; the scheduler paces them and retries 429s.
+   * A batch answered with 404 is split until the unknown endpoints are
+   * isolated, so they don't take the rest of the batch down with them
    */
-  async fetchPricing(endpointIds: string[]): Promise<FalPricingResponse> {
+  async fetchPricing(endpointIds: string[]): Promise<FalPricingResult> {
     console.log(`💰 Fetching pricing for ${endpointIds.length} models...`);
 
     try {
-      const allPrices: FalPricingItem[] = [];
-
       // API accepts max 50 endpoint_ids at once
       const batchSize = 50;
-      const totalBatches = Math.ceil(endpointIds.length / batchSize);
-
+      const batches: string[][] = [];
       for (let i = 0; i < endpointIds.length; i += batchSize) {
-        const batchNumber = Math.floor(i / batchSize) + 1;
-        const batch = endpointIds.slice(i, i + batchSize);
-
-        const params = new URLSearchParams();
-        batch.forEach(id => params.append('endpoint_id', id));
-
-        // Retry logic with exponential backoff
-        let retries = 0;
-        const maxRetries = 3;
-        let success = false;
-
-        while (retries <= maxRetries && !success) {
-          try {
-            const response = await this.request<FalPricingResponse>(
-              `/v1/models/pricing?${params.toString()}`
-            );
-
-            if (response.prices && Array.isArray(response.prices)) {
-              const sanitized = this.sanitizePricingResponse(response);
-              allPrices.push(...sanitized.prices);
-              console.log(`  💵 Batch ${batchNumber}/${totalBatches}: Fetched ${response.prices.length} prices`);
-              success = true;
-            }
-          } catch (error: any) {
-            // Check if rate limit error (429)
-            if (error.message?.includes('429') || error.message?.includes('Rate limit')) {
-              retries++;
-              if (retries <= maxRetries) {
-                const waitTime = Math.pow(2, retries) * 1000; // Exponential backoff: 2s, 4s, 8s
-                console.log(`  ⏳ Rate limit hit. Waiting ${waitTime / 1000}s before retry ${retries}/${maxRetries}...`);
-                await this.sleep(waitTime);
-              } else {
-                throw error; // Max retries exceeded
-              }
-            } else if (error.message?.includes('404') || error.message?.includes('not found')) {
-              // Some endpoints no longer exist, skip this batch
-              console.warn(`  ⚠️ Batch ${batchNumber}/${totalBatches}: Some endpoints not found, skipping batch`);
-              success = true; // Mark as success to continue to next batch
-            } else {
-              throw error; // Different error, don't retry
-            }
-          }
-        }
-
-        // Add delay between batches to avoid rate limiting (except for last batch)
-        if (i + batchSize < endpointIds.length) {
-          await this.sleep(5000); // 5s delay between batches to respect strict rate limits
-        }
+        batches.push(endpointIds.slice(i, i + batchSize));
       }
 
+      const results = await Promise.all(batches.map(async (batch, index) => {
+        const result = await this.fetchPricingBatch(batch);
+        const unknown = result.unknownEndpointIds.length;
+        console.log(
+          `  💵 Batch ${index + 1}/${batches.length}: Fetched ${result.prices.length} prices` +
+          (unknown > 0 ? `, ${unknown} endpoints unknown` : '')
+        );
+        return result;
+      }));
+
+      const allPrices: FalPricingItem[] = results.flatMap(result => result.prices);
+      const unknownEndpointIds = results.flatMap(result => result.unknownEndpointIds);
       console.log(`✅ Fetched pricing for ${allPrices.length} models`);
+      if (unknownEndpointIds.length > 0) {
+        console.warn(`⚠️ Pricing API does not know ${unknownEndpointIds.length} endpoints: ${unknownEndpointIds.join(', ')}`);
+      }
 
       return {
         prices: allPrices,
-        next_cursor: null,
-        has_more: false,
+        unknownEndpointIds,
       };
     } catch (error) {
       console.error('❌ Failed to fetch pricing:', error);
+      if (error instanceof FalError) throw error;
       throw new Error(`Failed to fetch pricing: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Fetch one pricing batch, bisecting on 404 down to the unknown endpoints
+   */
+  private async fetchPricingBatch(endpointIds: string[]): Promise<FalPricingResult> {
+    const params = new URLSearchParams();
+    endpointIds.forEach(id => params.append('endpoint_id', id));
+
+    try {
+      const response = await this.request<FalPricingResponse>(
+        `/v1/models/pricing?${params.toString()}`
+      );
+
+      const prices = Array.isArray(response.prices)
+        ? this.sanitizePricingResponse(response).prices
+        : [];
+      return { prices, unknownEndpointIds: [] };
+    } catch (error) {
+      if (!(error instanceof FalNotFoundError)) throw error;
+      if (endpointIds.length === 1) {
+        return { prices: [], unknownEndpointIds: endpointIds };
+      }
+
+      const middle = Math.ceil(endpointIds.length / 2);
+      const halves = await Promise.all([
+        this.fetchPricingBatch(endpointIds.slice(0, middle)),
+        this.fetchPricingBatch(endpointIds.slice(middle)),
+      ]);
+      return {
+        prices: halves.flatMap(half => half.prices),
+        unknownEndpointIds: halves.flatMap(half => half.unknownEndpointIds),
+      };
+    }
+  }
+
   /**
    * Estimate cost for a single model
    * POST /v1/models/pricing/estimate
@@ -302,10 +355,9 @@ export class FalApiClient {
         }
       );
 
-      const estimate = response.estimates[modelId];
+      const estimate = response.estimates?.[modelId];
       if (!estimate) {
-        console.warn(`⚠️ No estimate found for ${modelId}`);
-        return 0;
+        throw new Error(`No estimate found for ${modelId}`);
       }
 
       const costPerCall = estimate.cost_per_call;
@@ -314,8 +366,9 @@ export class FalApiClient {
 
     } catch (error) {
       console.error('❌ Failed to estimate cost:', error);
-      // Return 0 instead of throwing to allow sync to continue
-      return 0;
+      // A missing estimate must not read as free
+      if (error instanceof FalError) throw error;
+      throw new Error(`Failed to estimate cost: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -351,6 +404,7 @@ export class FalApiClient {
 
     } catch (error) {
       console.error('❌ Failed to batch estimate:', error);
+      if (error instanceof FalError) throw error;
       throw new Error(`Failed to batch estimate: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -363,16 +417,16 @@ export class FalApiClient {
     console.log(`📋 Fetching schema for ${endpointId}...`);
 
     try {
-      const url = `https://fal.ai/api/openapi/queue/openapi.json?endpoint_id=${encodeURIComponent(endpointId)}`;
+      const url = `${this.schemaUrl}?endpoint_id=${encodeURIComponent(endpointId)}`;
 
-      const response = await fetch(url, {
+      const response = await this.scheduler.fetch(url, {
         headers: {
           'Authorization': `Key ${this.apiKey}`,
         },
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch schema: ${response.status} ${response.statusText}`);
+        throw await this.responseError(response, url, 'GET');
       }
 
       const schema = await response.json();
@@ -387,6 +441,155 @@ export class FalApiClient {
     }
   }
 
+  // ==========================================================================
+  // QUEUE (INFERENCE)
+  // ==========================================================================
+
+  /**
+   * Build queue URL for a request
+   * Status/result/cancel live under the app id (owner/alias), not the full
+   * endpoint path, e.g. fal-ai/flux/dev -> fal-ai/flux/requests/{id}
+   */
+  private queueRequestUrl(modelId: string, requestId: string, suffix: string = ''): string {
+    const appId = modelId.split('/').slice(0, 2).join('/');
+    return `${this.queueUrl}/${appId}/requests/${encodeURIComponent(requestId)}${suffix}`;
+  }
+
+  /**
+   * Submit an inference request to the queue
+   * POST https://queue.fal.run/{model_id}
+   */
+  async submit(
+    modelId: string,
+    input: Record<string, unknown>,
+    options: FalSubmitOptions = {}
+  ): Promise<FalQueueSubmitResponse> {
+    console.log(`🚀 Submitting ${modelId} to FAL queue...`);
+
+    const params = new URLSearchParams();
+    if (options.webhookUrl) {
+      params.append('fal_webhook', options.webhookUrl);
+    }
+    const query = params.toString() ? `?${params.toString()}` : '';
+
+    const response = await this.request<FalQueueSubmitResponse>(
+      `${this.queueUrl}/${modelId}${query}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }
+    );
+
+    if (!response.request_id) {
+      throw new FalInvalidResponseError(`FAL queue did not return a request_id for ${modelId}`, {
+        url: `${this.queueUrl}/${modelId}${query}`,
+        method: 'POST',
+      });
+    }
+
+    console.log(`✅ Queued ${modelId} as ${response.request_id}`);
+    return response;
+  }
+
+  /**
+   * Get status of a queued request
+   * GET https://queue.fal.run/{app_id}/requests/{request_id}/status
+   */
+  async getStatus(
+    modelId: string,
+    requestId: string,
+    logs: boolean = false
+  ): Promise<FalQueueStatusResponse> {
+    const query = logs ? '?logs=1' : '';
+    return this.request<FalQueueStatusResponse>(
+      this.queueRequestUrl(modelId, requestId, `/status${query}`)
+    );
+  }
+
+  /**
+   * Fetch result of a completed request
+   * GET https://queue.fal.run/{app_id}/requests/{request_id}
+   */
+  async getResult<T = unknown>(modelId: string, requestId: string): Promise<T> {
+    return this.request<T>(this.queueRequestUrl(modelId, requestId));
+  }
+
+  /**
+   * Cancel a queued request
+   * PUT https://queue.fal.run/{app_id}/requests/{request_id}/cancel
+   */
+  async cancel(modelId: string, requestId: string): Promise<FalQueueCancelResponse> {
+    console.log(`🛑 Cancelling ${modelId} request ${requestId}...`);
+
+    try {
+      return await this.request<FalQueueCancelResponse>(
+        this.queueRequestUrl(modelId, requestId, '/cancel'),
+        { method: 'PUT' }
+      );
+    } catch (error) {
+      // FAL answers 400 when the request already finished
+      if (error instanceof FalValidationError) {
+        return { status: 'ALREADY_COMPLETED' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Poll a queued request until it completes, then fetch its result
+   */
+  async waitForResult<T = unknown>(
+    modelId: string,
+    requestId: string,
+    options: FalQueueOptions = {}
+  ): Promise<FalQueueResult<T>> {
+    const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const timeout = options.timeout ?? DEFAULT_QUEUE_TIMEOUT;
+    const deadline = Date.now() + timeout;
+    const logs: FalQueueLog[] = [];
+
+    while (true) {
+      const status = await this.getStatus(modelId, requestId, options.logs);
+      await options.onStatus?.(status);
+
+      if (status.logs?.length) {
+        logs.push(...status.logs.slice(logs.length));
+      }
+
+      if (status.status === 'COMPLETED') {
+        const data = await this.getResult<T>(modelId, requestId);
+        console.log(`✅ ${modelId} request ${requestId} completed`);
+        return { requestId, data, logs };
+      }
+
+      if (Date.now() + pollInterval > deadline) {
+        if (options.cancelOnTimeout) {
+          await this.cancel(modelId, requestId).catch(error => {
+            console.warn(`⚠️ Failed to cancel ${requestId} after timeout:`, error);
+          });
+        }
+        throw new FalTimeoutError(
+          `FAL request ${requestId} timed out after ${timeout}ms (last status: ${status.status})`,
+          { url: this.queueRequestUrl(modelId, requestId, '/status') }
+        );
+      }
+
+      await this.sleep(pollInterval);
+    }
+  }
+
+  /**
+   * Submit a request and wait for its result
+   */
+  async run<T = unknown>(
+    modelId: string,
+    input: Record<string, unknown>,
+    options: FalQueueOptions = {}
+  ): Promise<FalQueueResult<T>> {
+    const { request_id } = await this.submit(modelId, input, options);
+    return this.waitForResult<T>(modelId, request_id, options);
+  }
+
   /**
    * Test API connection
    */
@@ -412,9 +615,9 @@ let clientInstance: FalApiClient | null = null;
 /**
  * Get FAL API client instance
  */
-export function getFalClient(apiKey?: string): FalApiClient {
+export function getFalClient(apiKey?: string, options?: FalClientOptions): FalApiClient {
   if (!clientInstance) {
-    clientInstance = new FalApiClient(apiKey);
+    clientInstance = new FalApiClient(apiKey, options);
   }
   return clientInstance;
 }
@@ -0,0 +1,105 @@
+// ============================================================================
+// FAL ERRORS
+// Typed errors thrown by FalApiClient, so callers branch on the kind of
+// failure instead of matching status codes in messages
+// ============================================================================
+
+import type { FalApiError } from './types';
+
+export interface FalErrorDetails {
+  /** HTTP status, or null if no response was received */
+  status?: number | null;
+  /** FAL error code from the response body, e.g. "HTTP_404" when none was sent */
+  code?: string | null;
+  url: string;
+  method?: string;
+  /** Server-requested wait before retrying, in ms */
+  retryAfter?: number | null;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error FalApiClient throws
+ */
+export class FalError extends Error {
+  readonly status: number | null;
+  readonly code: string | null;
+  readonly url: string;
+  readonly method: string;
+  readonly retryAfter: number | null;
+
+  constructor(message: string, details: FalErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status ?? null;
+    this.code = details.code ?? null;
+    this.url = details.url;
+    this.method = details.method || 'GET';
+    this.retryAfter = details.retryAfter ?? null;
+  }
+
+  /** Whether repeating the same request may succeed */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/** 429: too many requests */
+export class FalRateLimitError extends FalError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** 404: endpoint, model or request does not exist */
+export class FalNotFoundError extends FalError {}
+
+/** 401/403: missing, invalid or insufficient FAL key */
+export class FalAuthError extends FalError {}
+
+/** 400/422: the request was rejected as invalid */
+export class FalValidationError extends FalError {}
+
+/** 5xx: FAL failed to handle the request */
+export class FalServerError extends FalError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** No response: DNS, connection or TLS failure */
+export class FalNetworkError extends FalError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** No response within the request timeout */
+export class FalTimeoutError extends FalError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** A successful response without the fields FAL documents, e.g. no request_id */
+export class FalInvalidResponseError extends FalError {}
+
+/**
+ * Build the typed error for a failed response
+ */
+export function falErrorFromResponse(
+  status: number,
+  body: Partial<FalApiError> | null,
+  details: Omit<FalErrorDetails, 'status' | 'code'>
+): FalError {
+  const code = body?.code || `HTTP_${status}`;
+  const message = `FAL API Error (${status}): ${body?.message || code}`;
+  const fullDetails = { ...details, status, code };
+
+  if (status === 429) return new FalRateLimitError(message, fullDetails);
+  if (status === 404) return new FalNotFoundError(message, fullDetails);
+  if (status === 401 || status === 403) return new FalAuthError(message, fullDetails);
+  if (status === 400 || status === 422) return new FalValidationError(message, fullDetails);
+  if (status >= 500) return new FalServerError(message, fullDetails);
+  return new FalError(message, fullDetails);
+}
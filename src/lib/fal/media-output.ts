@@ -0,0 +1,146 @@
+// ============================================================================
+// MEDIA OUTPUT
+// Normalizes any FAL result (images array, video object, audio_url...) into
+// one list of media items so results render the same for every model
+// ============================================================================
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'file';
+
+export interface MediaItem {
+  kind: MediaKind;
+  url: string;
+  mimeType: string | null;
+  width: number | null;
+  height: number | null;
+  /** Seconds */
+  duration: number | null;
+  fileName: string | null;
+  fileSize: number | null;
+}
+
+export interface MediaOutput {
+  items: MediaItem[];
+  seed: number | null;
+  /** FAL's timing breakdown in seconds, e.g. { inference: 1.2 } */
+  timings: Record<string, number> | null;
+}
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  flac: 'audio/flac',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isMediaUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\//.test(value);
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function mimeFromName(name: string | null): string | null {
+  const extension = name?.split('?')[0].split('.').pop()?.toLowerCase();
+  return (extension && EXTENSION_MIME_TYPES[extension]) || null;
+}
+
+/**
+ * Media kind from the key the file was found under, e.g. images, audio_url
+ */
+function kindFromKey(key: string | null): MediaKind | null {
+  const lower = (key || '').toLowerCase();
+  if (/video/.test(lower)) return 'video';
+  if (/audio|speech|voice|music|sound/.test(lower)) return 'audio';
+  if (/image|frame|mask|thumbnail/.test(lower)) return 'image';
+  return null;
+}
+
+function kindFromMime(mimeType: string | null): MediaKind | null {
+  const type = mimeType?.split('/')[0];
+  return type === 'image' || type === 'video' || type === 'audio' ? type : null;
+}
+
+function toMediaItem(url: string, file: Record<string, unknown>, key: string | null): MediaItem {
+  const fileName = stringOrNull(file.file_name);
+  const mimeType = stringOrNull(file.content_type) || mimeFromName(fileName) || mimeFromName(url);
+
+  return {
+    kind: kindFromMime(mimeType) || kindFromKey(key) || 'file',
+    url,
+    mimeType,
+    width: numberOrNull(file.width),
+    height: numberOrNull(file.height),
+    duration: numberOrNull(file.duration),
+    fileName,
+    fileSize: numberOrNull(file.file_size),
+  };
+}
+
+/**
+ * Normalize a FAL result into media items plus seed and timings
+ * Files are FAL File objects ({ url, content_type, width, ... }) anywhere in
+ * the result, or bare URLs under *_url(s) keys; each URL is listed once
+ */
+export function normalizeFalOutput(output: unknown): MediaOutput {
+  const items: MediaItem[] = [];
+  const seen = new Set<string>();
+
+  const add = (item: MediaItem) => {
+    if (seen.has(item.url)) return;
+    seen.add(item.url);
+    items.push(item);
+  };
+
+  const visit = (value: unknown, key: string | null) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(item, key));
+      return;
+    }
+    if (isMediaUrl(value) && key && /(^|_)urls?$/.test(key)) {
+      add(toMediaItem(value, {}, key));
+      return;
+    }
+    if (!isObject(value)) return;
+
+    if (isMediaUrl(value.url)) {
+      add(toMediaItem(value.url, value, key));
+      return;
+    }
+    for (const [childKey, child] of Object.entries(value)) {
+      visit(child, childKey);
+    }
+  };
+
+  visit(output, null);
+
+  const result = isObject(output) ? output : {};
+  const timings = isObject(result.timings)
+    ? Object.fromEntries(
+        Object.entries(result.timings).filter(([, seconds]) => typeof seconds === 'number')
+      ) as Record<string, number>
+    : null;
+
+  return {
+    items,
+    seed: numberOrNull(result.seed),
+    timings,
+  };
+}
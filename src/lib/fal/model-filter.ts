@@ -0,0 +1,26 @@
+// ============================================================================
+// MODEL FILTER
+// Glob-style matching of model ids, e.g. "fal-ai/flux*" or "*video*"
+// ============================================================================
+
+/**
+ * Build a matcher from comma-separated glob patterns
+ * `*` matches any run of characters; no pattern matches everything
+ */
+export function createModelFilter(pattern?: string | null): (modelId: string) => boolean {
+  const globs = (pattern || '')
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  if (globs.length === 0) {
+    return () => true;
+  }
+
+  const regexes = globs.map(glob => {
+    const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`, 'i');
+  });
+
+  return modelId => regexes.some(regex => regex.test(modelId));
+}
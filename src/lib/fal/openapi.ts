@@ -0,0 +1,242 @@
+// ============================================================================
+// OPENAPI HELPERS
+// Extracts model input and output schemas from FAL OpenAPI documents,
+// dereferencing $refs and flattening allOf along the way
+// ============================================================================
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiEndpoint {
+  /** Path of the inference endpoint, e.g. /fal-ai/flux/dev */
+  path: string;
+  /** Dereferenced request body schema */
+  inputSchema: JsonSchema | null;
+  /** Dereferenced result schema */
+  outputSchema: JsonSchema | null;
+}
+
+// Queue status, result and cancel routes hang off the inference path
+const QUEUE_REQUEST_SEGMENT = /\/requests(\/|$)/;
+
+// Keywords whose value maps names to schemas
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', 'definitions', '$defs'];
+// Keywords holding data, not schemas
+const DATA_KEYWORDS = ['enum', 'default', 'examples', 'example', 'const', 'required'];
+
+function isObject(value: unknown): value is JsonSchema {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Follow a local JSON pointer like #/components/schemas/Image
+ */
+function resolvePointer(document: unknown, ref: string): unknown {
+  if (!ref.startsWith('#/')) return undefined;
+
+  let target = document;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Array.isArray(target)) {
+      target = target[Number(key)];
+    } else if (isObject(target)) {
+      target = target[key];
+    } else {
+      return undefined;
+    }
+  }
+  return target;
+}
+
+/**
+ * Merge allOf members into one schema; properties and required accumulate,
+ * otherwise the first member to set a keyword wins
+ */
+function mergeSchemas(members: unknown[]): JsonSchema {
+  const merged: JsonSchema = {};
+
+  for (const member of members) {
+    if (!isObject(member)) continue;
+    for (const [key, value] of Object.entries(member)) {
+      if (key === 'properties' && isObject(value)) {
+        merged.properties = { ...(isObject(merged.properties) ? merged.properties : {}), ...value };
+      } else if (key === 'required' && Array.isArray(value)) {
+        const required = Array.isArray(merged.required) ? merged.required : [];
+        merged.required = Array.from(new Set([...required, ...value]));
+      } else if (!(key in merged)) {
+        merged[key] = value;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Overlay a schema's own keywords (title, default, description...) on
+ * what its $ref or allOf resolved to
+ */
+function withOwnKeywords(base: JsonSchema, own: JsonSchema): JsonSchema {
+  const result = { ...base, ...own };
+  if (isObject(base.properties) && isObject(own.properties)) {
+    result.properties = { ...base.properties, ...own.properties };
+  }
+  if (Array.isArray(base.required) && Array.isArray(own.required)) {
+    result.required = Array.from(new Set([...base.required, ...own.required]));
+  }
+  return result;
+}
+
+function resolveNode(node: unknown, document: unknown, resolving: string[]): unknown {
+  if (Array.isArray(node)) {
+    return node.map(item => resolveNode(item, document, resolving));
+  }
+  return isObject(node) ? resolveObject(node, document, resolving) : node;
+}
+
+function resolveObject(node: JsonSchema, document: unknown, resolving: string[]): JsonSchema {
+  const { $ref, allOf, anyOf, oneOf, ...own } = node;
+
+  // Resolve nested keywords first (properties, items, additionalProperties...)
+  const resolvedOwn: JsonSchema = {};
+  for (const [key, value] of Object.entries(own)) {
+    if (DATA_KEYWORDS.includes(key) || key.startsWith('x-')) {
+      resolvedOwn[key] = value;
+    } else if (SCHEMA_MAP_KEYWORDS.includes(key) && isObject(value)) {
+      resolvedOwn[key] = Object.fromEntries(
+        Object.entries(value).map(([name, child]) => [name, resolveNode(child, document, resolving)])
+      );
+    } else {
+      resolvedOwn[key] = resolveNode(value, document, resolving);
+    }
+  }
+
+  let schema: JsonSchema = resolvedOwn;
+
+  if (typeof $ref === 'string') {
+    // A cycle is left as a $ref so the result stays finite
+    if (resolving.includes($ref)) {
+      return { ...resolvedOwn, $ref };
+    }
+    const target = resolvePointer(document, $ref);
+    if (!isObject(target)) {
+      return { ...resolvedOwn, $ref };
+    }
+    schema = withOwnKeywords(resolveObject(target, document, [...resolving, $ref]), resolvedOwn);
+  }
+
+  if (Array.isArray(allOf)) {
+    const members = allOf.map(member => resolveNode(member, document, resolving));
+    schema = withOwnKeywords(mergeSchemas(members), schema);
+  }
+
+  for (const [keyword, union] of [['anyOf', anyOf], ['oneOf', oneOf]] as const) {
+    if (!Array.isArray(union)) continue;
+    const members = union.map(member => resolveNode(member, document, resolving));
+    const nonNull = members.filter(member => !(isObject(member) && member.type === 'null'));
+
+    // Optional[X] is X that may be null, not a real union
+    const [single] = nonNull;
+    if (nonNull.length === 1 && members.length === 2 && isObject(single)) {
+      schema = withOwnKeywords({ ...single, nullable: true }, schema);
+    } else {
+      schema = { ...schema, [keyword]: members };
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Dereference a schema against its OpenAPI document
+ * Nested $refs are inlined, allOf is merged, Optional anyOf/oneOf collapse
+ * to a nullable schema and real unions stay as anyOf/oneOf. Cyclic refs
+ * are left as { $ref } at the point they recur
+ */
+export function resolveSchema(schema: JsonSchema, document: unknown): JsonSchema {
+  return resolveObject(schema, document, []);
+}
+
+function jsonSchemaOf(content: unknown): JsonSchema | null {
+  if (!isObject(content)) return null;
+  const media = content['application/json'] || Object.values(content).find(value => isObject(value) && value.schema);
+  return isObject(media) && isObject(media.schema) ? media.schema : null;
+}
+
+function successSchemaOf(operation: unknown): JsonSchema | null {
+  if (!isObject(operation) || !isObject(operation.responses)) return null;
+  const success = operation.responses['200'] || operation.responses['201'];
+  return isObject(success) ? jsonSchemaOf(success.content) : null;
+}
+
+/**
+ * The queue API answers submissions with a status, not the result
+ */
+function isQueueStatus(schema: JsonSchema | null): boolean {
+  const properties = schema?.properties;
+  return isObject(properties) && 'request_id' in properties && 'status' in properties;
+}
+
+/**
+ * Every inference endpoint in a FAL OpenAPI document with its input and
+ * output schema; queue status, result and cancel routes are skipped
+ */
+export function extractEndpointsFromOpenAPI(openapi: unknown): OpenApiEndpoint[] {
+  try {
+    if (!isObject(openapi) || !isObject(openapi.paths)) return [];
+
+    const paths = openapi.paths;
+    const endpoints: OpenApiEndpoint[] = [];
+
+    for (const [path, pathItem] of Object.entries(paths)) {
+      if (!isObject(pathItem) || !isObject(pathItem.post)) continue;
+      if (QUEUE_REQUEST_SEGMENT.test(path) || path.includes('{')) continue;
+
+      const requestBody = pathItem.post.requestBody;
+      const body = jsonSchemaOf(isObject(requestBody) ? requestBody.content : null);
+      const inputSchema = body ? resolveSchema(body, openapi) : null;
+
+      // Queue documents serve the result from GET {path}/requests/{request_id};
+      // direct documents return it from the POST itself
+      const resultPath = Object.keys(paths).find(candidate =>
+        /^\/requests\/\{[^}/]+\}$/.test(candidate.slice(path.length)) && candidate.startsWith(path)
+      );
+      const resultItem = resultPath ? paths[resultPath] : null;
+      const resultOperation = isObject(resultItem) ? resultItem.get : null;
+      const result = successSchemaOf(resultOperation) || successSchemaOf(pathItem.post);
+      const outputSchema = result ? resolveSchema(result, openapi) : null;
+
+      endpoints.push({
+        path,
+        inputSchema,
+        outputSchema: isQueueStatus(outputSchema) ? null : outputSchema,
+      });
+    }
+
+    return endpoints;
+  } catch (error) {
+    console.warn('⚠️ Failed to read endpoints from OpenAPI:', error);
+    return [];
+  }
+}
+
+/**
+ * The endpoint for a model: the one at /{endpointId}, else the first
+ */
+export function extractModelEndpoint(openapi: unknown, endpointId?: string): OpenApiEndpoint | null {
+  const endpoints = extractEndpointsFromOpenAPI(openapi);
+  return (endpointId && endpoints.find(endpoint => endpoint.path === `/${endpointId}`)) || endpoints[0] || null;
+}
+
+/**
+ * Extract input schema from OpenAPI specification
+ */
+export function extractInputSchemaFromOpenAPI(openapi: unknown, endpointId?: string): JsonSchema | null {
+  return extractModelEndpoint(openapi, endpointId)?.inputSchema ?? null;
+}
+
+/**
+ * Extract output (result) schema from OpenAPI specification
+ */
+export function extractOutputSchemaFromOpenAPI(openapi: unknown, endpointId?: string): JsonSchema | null {
+  return extractModelEndpoint(openapi, endpointId)?.outputSchema ?? null;
+}
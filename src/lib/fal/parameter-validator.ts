@@ -0,0 +1,245 @@
+// ============================================================================
+// PARAMETER VALIDATOR
+// Validates and normalizes generation inputs against a model's parameters
+// Pure and client-safe: the parameter form imports it, so no server modules
+// ============================================================================
+
+import type {
+  ModelParameterRow,
+  ParameterFieldError,
+  ParameterValidationResult,
+  ParsedParameter,
+} from './types';
+
+export interface ValidateOptions {
+  /** What to do with params the model doesn't declare (default 'reject') */
+  unknownParameters?: 'reject' | 'strip';
+}
+
+type NormalizedType = 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+
+/**
+ * Map parser/database type names onto JSON schema primitives
+ */
+function normalizeType(type: string | null | undefined): NormalizedType {
+  switch ((type || '').toLowerCase()) {
+    case 'integer':
+    case 'int':
+      return 'integer';
+    case 'number':
+    case 'float':
+      return 'number';
+    case 'boolean':
+    case 'bool':
+      return 'boolean';
+    case 'array':
+      return 'array';
+    case 'object':
+      return 'object';
+    default:
+      return 'string';
+  }
+}
+
+/**
+ * Stored default values are strings; turn them back into typed values
+ */
+function parseStoredDefault(value: string | null): unknown {
+  if (value === null || value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Convert model_parameters rows into parameter definitions
+ */
+export function parametersFromRows(rows: ModelParameterRow[]): ParsedParameter[] {
+  return rows.map(row => ({
+    name: row.parameter_name,
+    type: row.parameter_type,
+    required: row.is_required,
+    defaultValue: parseStoredDefault(row.default_value),
+    minValue: row.min_value,
+    maxValue: row.max_value,
+    allowedValues: row.allowed_values,
+    uiLabel: row.ui_label,
+    uiPlaceholder: row.ui_placeholder,
+    uiHelpText: row.ui_help_text,
+    uiOrder: row.ui_order,
+    uiGroup: row.ui_group,
+  }));
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Coerce a value to the parameter type
+ * Returns undefined when the value can't be represented as that type
+ */
+function coerce(value: unknown, type: NormalizedType): unknown {
+  switch (type) {
+    case 'integer': {
+      const num = typeof value === 'string' ? Number(value.trim()) : value;
+      return typeof num === 'number' && Number.isInteger(num) ? num : undefined;
+    }
+    case 'number': {
+      const num = typeof value === 'string' ? Number(value.trim()) : value;
+      return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === '1' || value === 1) return true;
+      if (value === 'false' || value === '0' || value === 0) return false;
+      return undefined;
+    case 'array':
+      if (Array.isArray(value)) return value;
+      if (typeof value === 'string') {
+        try {
+          const parsed = JSON.parse(value);
+          return Array.isArray(parsed) ? parsed : undefined;
+        } catch {
+          return undefined;
+        }
+      }
+      return undefined;
+    case 'object':
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) return value;
+      if (typeof value === 'string') {
+        try {
+          const parsed = JSON.parse(value);
+          return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+        } catch {
+          return undefined;
+        }
+      }
+      return undefined;
+    case 'string':
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      return undefined;
+  }
+}
+
+/**
+ * Validate a single parameter value (already known to be non-empty)
+ */
+function validateValue(
+  param: ParsedParameter,
+  value: unknown,
+  errors: ParameterFieldError[]
+): unknown {
+  const type = normalizeType(param.type);
+  const coerced = coerce(value, type);
+
+  if (coerced === undefined) {
+    errors.push({
+      field: param.name,
+      code: 'type',
+      message: `${param.uiLabel || param.name} must be ${type === 'integer' ? 'an' : 'a'} ${type}`,
+    });
+    return undefined;
+  }
+
+  if (param.allowedValues && param.allowedValues.length > 0) {
+    const allowed = param.allowedValues.some(option => option === coerced || String(option) === String(coerced));
+    if (!allowed) {
+      errors.push({
+        field: param.name,
+        code: 'enum',
+        message: `${param.uiLabel || param.name} must be one of: ${param.allowedValues.join(', ')}`,
+      });
+      return undefined;
+    }
+  }
+
+  if (typeof coerced === 'number') {
+    if (param.minValue !== null && param.minValue !== undefined && coerced < param.minValue) {
+      errors.push({
+        field: param.name,
+        code: 'min',
+        message: `${param.uiLabel || param.name} must be at least ${param.minValue}`,
+      });
+      return undefined;
+    }
+    if (param.maxValue !== null && param.maxValue !== undefined && coerced > param.maxValue) {
+      errors.push({
+        field: param.name,
+        code: 'max',
+        message: `${param.uiLabel || param.name} must be at most ${param.maxValue}`,
+      });
+      return undefined;
+    }
+  }
+
+  return coerced;
+}
+
+/**
+ * Validate params against parameter definitions
+ * Applies defaults and coerces types; collects every field error
+ */
+export function validateParameters(
+  parameters: ParsedParameter[],
+  params: Record<string, unknown>,
+  options: ValidateOptions = {}
+): ParameterValidationResult {
+  const errors: ParameterFieldError[] = [];
+  const normalized: Record<string, unknown> = {};
+  const known = new Set(parameters.map(param => param.name));
+
+  for (const param of parameters) {
+    const raw = params[param.name];
+
+    if (isEmpty(raw)) {
+      if (!isEmpty(param.defaultValue)) {
+        normalized[param.name] = coerce(param.defaultValue, normalizeType(param.type)) ?? param.defaultValue;
+      } else if (param.required) {
+        errors.push({
+          field: param.name,
+          code: 'required',
+          message: `${param.uiLabel || param.name} is required`,
+        });
+      }
+      continue;
+    }
+
+    const value = validateValue(param, raw, errors);
+    if (value !== undefined) {
+      normalized[param.name] = value;
+    }
+  }
+
+  if ((options.unknownParameters || 'reject') === 'reject') {
+    for (const key of Object.keys(params)) {
+      if (!known.has(key)) {
+        errors.push({
+          field: key,
+          code: 'unknown',
+          message: `Unknown parameter: ${key}`,
+        });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, params: null, errors };
+  }
+
+  return { valid: true, params: normalized, errors: [] };
+}
+
+/**
+ * Validate params against model_parameters rows
+ */
+export function validateAgainstRows(
+  rows: ModelParameterRow[],
+  params: Record<string, unknown>,
+  options?: ValidateOptions
+): ParameterValidationResult {
+  return validateParameters(parametersFromRows(rows), params, options);
+}
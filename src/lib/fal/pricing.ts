@@ -0,0 +1,344 @@
+// ============================================================================
+// FAL PRICING ENGINE
+// Turns FAL unit prices (per request, second, megapixel, token, ...) into
+// the cost of a concrete request and the price range a model can reach
+// ============================================================================
+
+import type { ParsedParameter, PricingType } from './types';
+
+/** Billing units the engine knows how to count */
+export type PricingUnit =
+  | 'request'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'second'
+  | 'minute'
+  | 'megapixel'
+  | 'token'
+  | 'character';
+
+export interface BillingUnit {
+  unit: PricingUnit;
+  /** Units per price, e.g. 1000 for "1k tokens" */
+  per: number;
+}
+
+export interface PriceEstimate {
+  /** USD for the request, or null if the quantity can't be known up front */
+  price: number | null;
+  /** Billed quantity in `unit`s, before dividing by `per` */
+  quantity: number | null;
+  unit: PricingUnit | null;
+}
+
+export interface PriceRange {
+  /** Price with every parameter at its default */
+  typical: number | null;
+  min: number | null;
+  /** null when a parameter that drives the price is unbounded */
+  max: number | null;
+  pricingType: PricingType;
+}
+
+const UNIT_ALIASES: Record<string, PricingUnit> = {
+  request: 'request',
+  call: 'request',
+  generation: 'request',
+  unit: 'request',
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+  second: 'second',
+  sec: 'second',
+  s: 'second',
+  minute: 'minute',
+  min: 'minute',
+  megapixel: 'megapixel',
+  mp: 'megapixel',
+  token: 'token',
+  character: 'character',
+  char: 'character',
+};
+
+const SCALE_SUFFIXES: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+// FAL's image_size presets
+const IMAGE_SIZE_PRESETS: Record<string, { width: number; height: number }> = {
+  square_hd: { width: 1024, height: 1024 },
+  square: { width: 512, height: 512 },
+  portrait_4_3: { width: 768, height: 1024 },
+  portrait_16_9: { width: 576, height: 1024 },
+  landscape_4_3: { width: 1024, height: 768 },
+  landscape_16_9: { width: 1024, height: 576 },
+};
+
+// Assumed when a model exposes no size, e.g. image-to-image at input size
+const DEFAULT_IMAGE_SIZE = IMAGE_SIZE_PRESETS.square_hd;
+
+const OUTPUT_COUNT_PARAMS = ['num_images', 'num_outputs', 'num_videos', 'num_samples'];
+const DURATION_PARAMS = ['duration', 'duration_seconds', 'seconds', 'video_length', 'audio_length'];
+const TEXT_PARAMS = ['text', 'input', 'prompt'];
+const PROMPT_PARAMS = ['prompt', 'system_prompt', 'messages'];
+const MAX_TOKENS_PARAMS = ['max_tokens', 'max_new_tokens', 'max_output_tokens'];
+
+// Output tokens assumed when a model has no max_tokens parameter
+const DEFAULT_OUTPUT_TOKENS = 1024;
+// Rough English average, used to count prompt tokens without a tokenizer
+const CHARACTERS_PER_TOKEN = 4;
+
+/**
+ * Parse FAL's unit string ("seconds", "megapixels", "1k tokens", "per image")
+ * Returns null for units the engine doesn't recognize
+ */
+export function parseBillingUnit(unit: string | null | undefined): BillingUnit | null {
+  const match = (unit || '')
+    .toLowerCase()
+    .trim()
+    .replace(/^per\s+/, '')
+    .match(/^(?:(\d+(?:\.\d+)?)\s*([km])?\s+)?([a-z]+?)s?$/);
+  if (!match) return null;
+
+  const [, amount, suffix, name] = match;
+  const pricingUnit = UNIT_ALIASES[name];
+  if (!pricingUnit) return null;
+
+  const per = (amount ? Number(amount) : 1) * (suffix ? SCALE_SUFFIXES[suffix] : 1);
+  return { unit: pricingUnit, per };
+}
+
+function firstParam(params: Record<string, unknown>, names: string[]): unknown {
+  for (const name of names) {
+    if (params[name] !== undefined && params[name] !== null) return params[name];
+  }
+  return undefined;
+}
+
+/**
+ * Numbers arrive as numbers or enum strings like "5" or "10s"
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function outputCount(params: Record<string, unknown>): number {
+  const count = toNumber(firstParam(params, OUTPUT_COUNT_PARAMS));
+  return count !== null && count > 0 ? count : 1;
+}
+
+function durationSeconds(params: Record<string, unknown>): number | null {
+  return toNumber(firstParam(params, DURATION_PARAMS));
+}
+
+/**
+ * Megapixels of one output image, from image_size or width/height
+ */
+function megapixels(params: Record<string, unknown>): number {
+  const imageSize = params.image_size;
+  let size = DEFAULT_IMAGE_SIZE;
+
+  if (typeof imageSize === 'string' && IMAGE_SIZE_PRESETS[imageSize]) {
+    size = IMAGE_SIZE_PRESETS[imageSize];
+  } else if (imageSize && typeof imageSize === 'object') {
+    const { width, height } = imageSize as Record<string, unknown>;
+    size = { width: toNumber(width) || size.width, height: toNumber(height) || size.height };
+  } else if (params.width !== undefined || params.height !== undefined) {
+    size = {
+      width: toNumber(params.width) || size.width,
+      height: toNumber(params.height) || size.height,
+    };
+  }
+
+  return (size.width * size.height) / 1_000_000;
+}
+
+function textLength(value: unknown): number {
+  if (typeof value === 'string') return value.length;
+  if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + textLength(item), 0);
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce((sum: number, item) => sum + textLength(item), 0);
+  }
+  return 0;
+}
+
+function tokenCount(params: Record<string, unknown>): number {
+  const promptCharacters = PROMPT_PARAMS.reduce((sum, name) => sum + textLength(params[name]), 0);
+  const maxTokens = toNumber(firstParam(params, MAX_TOKENS_PARAMS));
+  return Math.ceil(promptCharacters / CHARACTERS_PER_TOKEN) + (maxTokens ?? DEFAULT_OUTPUT_TOKENS);
+}
+
+/**
+ * Billed quantity of one request, or null if the params don't determine it
+ */
+function requestQuantity(unit: PricingUnit, params: Record<string, unknown>): number | null {
+  switch (unit) {
+    case 'request':
+      return 1;
+    case 'image':
+    case 'video':
+    case 'audio':
+      return outputCount(params);
+    case 'megapixel':
+      return megapixels(params) * outputCount(params);
+    case 'second': {
+      const seconds = durationSeconds(params);
+      return seconds === null ? null : seconds * outputCount(params);
+    }
+    case 'minute': {
+      const seconds = durationSeconds(params);
+      return seconds === null ? null : (seconds / 60) * outputCount(params);
+    }
+    case 'token':
+      return tokenCount(params);
+    case 'character': {
+      const text = firstParam(params, TEXT_PARAMS);
+      return text === undefined ? null : textLength(text);
+    }
+  }
+}
+
+/**
+ * Round to a millionth of a dollar so float noise doesn't reach the database
+ */
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Expected USD cost of one request with the given params
+ * Params should already have defaults applied
+ */
+export function estimateRequestPrice(
+  unitPrice: number,
+  unit: string | null | undefined,
+  params: Record<string, unknown>
+): PriceEstimate {
+  const billing = parseBillingUnit(unit);
+  if (!billing) {
+    return { price: null, quantity: null, unit: null };
+  }
+
+  const quantity = requestQuantity(billing.unit, params);
+  return {
+    price: quantity === null ? null : roundUsd((unitPrice * quantity) / billing.per),
+    quantity,
+    unit: billing.unit,
+  };
+}
+
+/**
+ * Default value of every parameter that has one
+ */
+export function defaultParams(parameters: ParsedParameter[]): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const parameter of parameters) {
+    if (parameter.defaultValue !== undefined && parameter.defaultValue !== null) {
+      params[parameter.name] = parameter.defaultValue;
+    }
+  }
+  return params;
+}
+
+/**
+ * How much a parameter value drives the price, for picking extremes
+ */
+function priceWeight(name: string, value: unknown): number | null {
+  if (name === 'image_size' && typeof value === 'string') {
+    const preset = IMAGE_SIZE_PRESETS[value];
+    return preset ? preset.width * preset.height : null;
+  }
+  return toNumber(value);
+}
+
+/**
+ * Parameters whose value changes the billed quantity of a unit
+ */
+function priceDrivingParams(unit: PricingUnit): string[] {
+  switch (unit) {
+    case 'image':
+    case 'video':
+    case 'audio':
+      return OUTPUT_COUNT_PARAMS;
+    case 'megapixel':
+      return [...OUTPUT_COUNT_PARAMS, 'image_size', 'width', 'height'];
+    case 'second':
+    case 'minute':
+      return [...OUTPUT_COUNT_PARAMS, ...DURATION_PARAMS];
+    case 'token':
+      return MAX_TOKENS_PARAMS;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Params with every price-driving parameter at its cheapest or dearest
+ * value; `unbounded` is set when the dearest value has no upper limit
+ */
+function extremeParams(
+  unit: PricingUnit,
+  parameters: ParsedParameter[],
+  extreme: 'min' | 'max'
+): { params: Record<string, unknown>; unbounded: boolean } {
+  const params = defaultParams(parameters);
+  const priceDriving = priceDrivingParams(unit);
+  let unbounded = false;
+
+  for (const parameter of parameters) {
+    if (!priceDriving.includes(parameter.name)) continue;
+
+    const candidates = (parameter.allowedValues || [])
+      .map(value => ({ value, weight: priceWeight(parameter.name, value) }))
+      .filter((candidate): candidate is { value: unknown; weight: number } => candidate.weight !== null);
+
+    if (candidates.length > 0) {
+      candidates.sort((a, b) => a.weight - b.weight);
+      params[parameter.name] = (extreme === 'min' ? candidates[0] : candidates[candidates.length - 1]).value;
+      continue;
+    }
+
+    const bound = extreme === 'min' ? parameter.minValue : parameter.maxValue;
+    if (bound !== null && bound !== undefined) {
+      params[parameter.name] = bound;
+    } else if (extreme === 'max' && parameter.name !== 'image_size') {
+      unbounded = true;
+    }
+  }
+
+  return { params, unbounded };
+}
+
+/**
+ * Typical, cheapest and dearest request price a model can reach
+ */
+export function priceRange(
+  unitPrice: number,
+  unit: string | null | undefined,
+  parameters: ParsedParameter[]
+): PriceRange {
+  if (unitPrice === 0) {
+    return { typical: 0, min: 0, max: 0, pricingType: 'free' };
+  }
+
+  const billing = parseBillingUnit(unit);
+  const typical = estimateRequestPrice(unitPrice, unit, defaultParams(parameters)).price;
+  if (!billing) {
+    return { typical, min: null, max: null, pricingType: 'variable' };
+  }
+
+  const cheapest = extremeParams(billing.unit, parameters, 'min');
+  const dearest = extremeParams(billing.unit, parameters, 'max');
+
+  const min = estimateRequestPrice(unitPrice, unit, cheapest.params).price;
+  // Prompt and input text lengths have no upper bound
+  const openEnded = billing.unit === 'token' || billing.unit === 'character';
+  const max = dearest.unbounded || openEnded
+    ? null
+    : estimateRequestPrice(unitPrice, unit, dearest.params).price;
+
+  const fixed = typical !== null && min === typical && max === typical;
+  return { typical, min, max, pricingType: fixed ? 'fixed' : 'variable' };
+}
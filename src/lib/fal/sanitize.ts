@@ -0,0 +1,34 @@
+// ============================================================================
+// SANITIZATION
+// Strips invalid Unicode from FAL data before it is stored
+// ============================================================================
+
+/**
+ * Sanitize string by removing invalid Unicode characters
+ */
+export function sanitizeString(str: unknown): string | null {
+  if (str === null || str === undefined) return null;
+  if (typeof str !== 'string') return String(str);
+  // Remove unpaired surrogates (U+D800 to U+DFFF) that cause JSON errors
+  return str.replace(/[\uD800-\uDFFF]/g, '');
+}
+
+/**
+ * Sanitize any value recursively; the shape is unchanged
+ */
+export function sanitizeValue<T>(value: T): T {
+  if (typeof value === 'string') {
+    return sanitizeString(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitizeValue(item)) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    const sanitized: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(value)) {
+      sanitized[key] = sanitizeValue(val);
+    }
+    return sanitized as T;
+  }
+  return value;
+}
@@ -0,0 +1,212 @@
+// ============================================================================
+// FAL REQUEST SCHEDULER
+// Concurrency limit, token-bucket rate limiting, retries with jittered
+// backoff (honoring Retry-After) and per-request timeouts
+// ============================================================================
+
+import { FalNetworkError, FalTimeoutError } from './errors';
+
+export interface SchedulerOptions {
+  /** Requests in flight at once (default 4) */
+  concurrency?: number;
+  /** Sustained request rate; 0 disables rate limiting (default 10) */
+  requestsPerSecond?: number;
+  /** Requests allowed in a burst above the sustained rate (default requestsPerSecond) */
+  burst?: number;
+  /** Retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** First backoff in ms, doubled per retry (default 1000) */
+  retryBaseDelay?: number;
+  /** Upper bound for a single backoff, including Retry-After (default 30000) */
+  retryMaxDelay?: number;
+  /** Abort a single attempt after this many ms; 0 disables (default 30000) */
+  timeout?: number;
+  /** fetch implementation (default global fetch) */
+  fetch?: typeof fetch;
+}
+
+// Methods that are safe to repeat after a 5xx or a lost connection
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export class RequestScheduler {
+  private concurrency: number;
+  private requestsPerSecond: number;
+  private burst: number;
+  private maxRetries: number;
+  private retryBaseDelay: number;
+  private retryMaxDelay: number;
+  private timeout: number;
+  private fetchImpl: typeof fetch;
+
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(options: SchedulerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.requestsPerSecond = Math.max(0, options.requestsPerSecond ?? 10);
+    this.burst = Math.max(1, options.burst ?? this.requestsPerSecond);
+    this.maxRetries = Math.max(0, options.maxRetries ?? 3);
+    this.retryBaseDelay = options.retryBaseDelay ?? 1000;
+    this.retryMaxDelay = options.retryMaxDelay ?? 30000;
+    this.timeout = options.timeout ?? 30000;
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+    this.tokens = this.burst;
+  }
+
+  /**
+   * fetch through the scheduler
+   * Resolves with the final response, which may still be an error status
+   * once retries are exhausted; rejects only if no response was received,
+   * with FalTimeoutError or FalNetworkError
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const idempotent = IDEMPOTENT_METHODS.has(method);
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | null = null;
+      let failure: unknown = null;
+
+      await this.acquireSlot();
+      try {
+        await this.acquireToken();
+        response = await this.attempt(url, init);
+      } catch (error) {
+        failure = error;
+      } finally {
+        this.releaseSlot();
+      }
+
+      // The caller cancelled; never retry
+      if (init.signal?.aborted) {
+        throw failure ?? new Error(`Request aborted: ${method} ${url}`);
+      }
+
+      // 429 means the request was not processed, so any method may retry;
+      // 5xx and network errors only for idempotent methods
+      const retryable = response
+        ? response.status === 429 || (idempotent && response.status >= 500)
+        : idempotent;
+
+      if (!retryable || attempt >= this.maxRetries) {
+        if (response) return response;
+        throw failure;
+      }
+
+      const delay = this.backoff(attempt, response);
+      const reason = response ? `HTTP ${response.status}` : failure instanceof Error ? failure.message : 'network error';
+      console.warn(`  ⏳ ${reason} for ${method} ${url}, retry ${attempt + 1}/${this.maxRetries} in ${Math.round(delay)}ms`);
+
+      // Free the connection before waiting
+      await response?.body?.cancel().catch(() => {});
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * One attempt with a timeout; the caller's signal still cancels it
+   */
+  private async attempt(url: string, init: RequestInit): Promise<Response> {
+    const method = init.method || 'GET';
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(init.signal?.reason);
+    init.signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = this.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, this.timeout)
+      : null;
+
+    try {
+      return await this.fetchImpl(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new FalTimeoutError(`Request timed out after ${this.timeout}ms`, { url, method, cause: error });
+      }
+      // Cancelled by the caller: pass their abort reason through
+      if (init.signal?.aborted) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new FalNetworkError(`Network error: ${message}`, { url, method, cause: error });
+    } finally {
+      if (timer) clearTimeout(timer);
+      init.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Retry-After if the server sent one, otherwise jittered exponential backoff
+   */
+  private backoff(attempt: number, response: Response | null): number {
+    const retryAfter = parseRetryAfter(response?.headers.get('retry-after') ?? null);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, this.retryMaxDelay);
+    }
+
+    const exponential = Math.min(this.retryBaseDelay * Math.pow(2, attempt), this.retryMaxDelay);
+    // Jitter between half and the full delay so parallel retries spread out
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return;
+    }
+    // releaseSlot hands its slot straight to the next waiter
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async acquireToken(): Promise<void> {
+    if (this.requestsPerSecond === 0) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(
+        this.burst,
+        this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond
+      );
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+
+      await sleep(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+    }
+  }
+}
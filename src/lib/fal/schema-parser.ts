@@ -0,0 +1,89 @@
+// ============================================================================
+// SCHEMA PARSER
+// Turns a dereferenced FAL input schema into parameter definitions for
+// model_parameters and the generation form
+// ============================================================================
+
+import type { ParsedParameter } from './types';
+
+type JsonSchema = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonSchema {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/**
+ * The schema that carries a property's type
+ * Optional fields arrive as anyOf [{ type: X }, { type: 'null' }]
+ */
+function primarySchema(schema: JsonSchema): JsonSchema {
+  for (const keyword of ['anyOf', 'oneOf']) {
+    const options = schema[keyword];
+    if (!Array.isArray(options)) continue;
+    const option = options.find(candidate => isObject(candidate) && candidate.type !== 'null');
+    if (isObject(option)) return { ...option, ...schema, [keyword]: undefined };
+  }
+  return schema;
+}
+
+function schemaType(schema: JsonSchema): string {
+  if (typeof schema.type === 'string') return schema.type;
+  if (Array.isArray(schema.type)) {
+    const type = schema.type.find(candidate => candidate !== 'null');
+    if (typeof type === 'string') return type;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return typeof schema.enum[0] === 'number' ? 'number' : 'string';
+  }
+  if (isObject(schema.properties)) return 'object';
+  return 'string';
+}
+
+/**
+ * Display order: FAL's x-fal-order-properties, then declaration order
+ */
+function orderedNames(schema: JsonSchema, properties: JsonSchema): string[] {
+  const names = Object.keys(properties);
+  const order = schema['x-fal-order-properties'];
+  if (!Array.isArray(order)) return names;
+
+  const listed = order.filter((name): name is string => typeof name === 'string' && name in properties);
+  return [...listed, ...names.filter(name => !listed.includes(name))];
+}
+
+/**
+ * Parse an input schema's properties into parameter definitions
+ * Returns no parameters for a schema without properties
+ */
+export function parseSchemaToParameters(schema: JsonSchema): ParsedParameter[] {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+
+  return orderedNames(schema, properties).map((name, index) => {
+    const property = isObject(properties[name]) ? primarySchema(properties[name]) : {};
+    const examples = Array.isArray(property.examples) ? property.examples : [];
+
+    return {
+      name,
+      type: schemaType(property),
+      required: required.has(name),
+      defaultValue: property.default,
+      minValue: numberOrNull(property.minimum) ?? numberOrNull(property.exclusiveMinimum),
+      maxValue: numberOrNull(property.maximum) ?? numberOrNull(property.exclusiveMaximum),
+      allowedValues: Array.isArray(property.enum) && property.enum.length > 0 ? property.enum : null,
+      uiLabel: stringOrNull(property.title),
+      uiPlaceholder: typeof examples[0] === 'string' ? examples[0] : null,
+      uiHelpText: stringOrNull(property.description),
+      uiOrder: index,
+      uiGroup: null,
+    };
+  });
+}
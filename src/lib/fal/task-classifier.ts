@@ -0,0 +1,170 @@
+// ============================================================================
+// TASK CLASSIFIER
+// Assigns a model its primary task type and task tags (text-to-image,
+// image-to-video, upscaling...) from FAL's category and the model's input
+// and output schemas
+// ============================================================================
+
+import type { TaskType } from './types';
+
+type Modality = 'text' | 'image' | 'video' | 'audio';
+
+export interface TaskClassificationInput {
+  endpointId: string;
+  category?: string | null;
+  inputSchema?: unknown;
+  outputSchema?: unknown;
+}
+
+export interface TaskClassification {
+  taskType: TaskType;
+  /** Sorted, e.g. ['image-to-image', 'upscaling'] */
+  tags: string[];
+}
+
+/** Admin-set classification that replaces what the classifier decides */
+export interface TaskOverride {
+  /** null keeps the classified task type */
+  taskType: TaskType | null;
+  /** null keeps the classified tags */
+  tags: string[] | null;
+}
+
+const MODALITY_TASK_TYPES: Record<Modality, TaskType> = {
+  text: 'TEXT',
+  image: 'IMAGE',
+  video: 'VIDEO',
+  audio: 'AUDIO',
+};
+
+// Words FAL uses on either side of "-to-" in categories
+const CATEGORY_MODALITIES: Record<string, Modality> = {
+  text: 'text',
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+  speech: 'audio',
+  music: 'audio',
+};
+
+// Categories that aren't written as "x-to-y"
+const CATEGORY_TASKS: Record<string, { output: Modality; tag: string }> = {
+  llm: { output: 'text', tag: 'text-generation' },
+  vision: { output: 'text', tag: 'vision' },
+};
+
+// Checked first so inputs like image_url aren't mistaken for text
+const INPUT_MODALITY_PATTERNS: Array<[RegExp, Modality]> = [
+  [/(^|_)(video)(_urls?)?$/, 'video'],
+  [/(^|_)(audio|speech|voice_sample)(_urls?|_file)?$/, 'audio'],
+  [/(^|_)(image|images|mask|reference_image|start_image|end_image)(_urls?)?$/, 'image'],
+  [/^(prompt|text|input|messages|system_prompt)$/, 'text'],
+];
+
+const OUTPUT_MODALITY_PATTERNS: Array<[RegExp, Modality]> = [
+  [/^videos?$/, 'video'],
+  [/^(audio|audio_url|audio_file|speech)$/, 'audio'],
+  [/^(images?|image_url)$/, 'image'],
+  [/^(output|text|response|completion)$/, 'text'],
+];
+
+// Tags recognized from the endpoint id or category
+const KEYWORD_TAGS: Array<[RegExp, string]> = [
+  [/upscal|super-?resolution|esrgan/, 'upscaling'],
+  [/background-?remov|rembg|birefnet|remove-?background/, 'background-removal'],
+  [/inpaint/, 'inpainting'],
+  [/outpaint/, 'outpainting'],
+  [/lip-?sync/, 'lip-sync'],
+  [/try-?on/, 'virtual-try-on'],
+];
+
+function propertyNames(schema: unknown): string[] {
+  if (!schema || typeof schema !== 'object' || !('properties' in schema)) return [];
+  const { properties } = schema;
+  return properties && typeof properties === 'object' ? Object.keys(properties) : [];
+}
+
+function modalitiesOf(names: string[], patterns: Array<[RegExp, Modality]>): Modality[] {
+  const found = new Set<Modality>();
+  for (const name of names) {
+    const match = patterns.find(([pattern]) => pattern.test(name.toLowerCase()));
+    if (match) found.add(match[1]);
+  }
+  return Array.from(found);
+}
+
+/**
+ * The input that defines the task: media beats a text prompt
+ */
+function primaryInput(inputs: Modality[]): Modality {
+  for (const modality of ['video', 'audio', 'image'] as Modality[]) {
+    if (inputs.includes(modality)) return modality;
+  }
+  return 'text';
+}
+
+/**
+ * Output modality and tag of a FAL category that names a task
+ */
+function parseCategory(category: string | null | undefined): { output: Modality; tag: string } | null {
+  const lower = (category || '').toLowerCase().trim();
+  const match = lower.match(/^([a-z]+)-to-([a-z]+)$/);
+  if (match && CATEGORY_MODALITIES[match[1]] && CATEGORY_MODALITIES[match[2]]) {
+    return { output: CATEGORY_MODALITIES[match[2]], tag: lower };
+  }
+  return CATEGORY_TASKS[lower] || null;
+}
+
+/**
+ * Classify a model
+ * FAL's category decides when it names a task; otherwise the output schema
+ * gives the output modality and the input schema the input. Models whose
+ * output can't be determined, or that produce several kinds, are MULTIMODAL
+ */
+export function classifyModel({
+  endpointId,
+  category,
+  inputSchema,
+  outputSchema,
+}: TaskClassificationInput): TaskClassification {
+  const tags = new Set<string>();
+  const fromCategory = parseCategory(category);
+
+  const inputs = modalitiesOf(propertyNames(inputSchema), INPUT_MODALITY_PATTERNS);
+  const outputs = modalitiesOf(propertyNames(outputSchema), OUTPUT_MODALITY_PATTERNS)
+    // A text field beside media output (e.g. a revised prompt) isn't a text task
+    .filter((modality, _, all) => modality !== 'text' || all.length === 1);
+
+  let taskType: TaskType = 'MULTIMODAL';
+  if (fromCategory) {
+    taskType = MODALITY_TASK_TYPES[fromCategory.output];
+    tags.add(fromCategory.tag);
+  } else if (outputs.length === 1) {
+    taskType = MODALITY_TASK_TYPES[outputs[0]];
+    tags.add(`${primaryInput(inputs)}-to-${outputs[0]}`);
+  }
+
+  const haystack = `${endpointId} ${category || ''}`.toLowerCase();
+  for (const [pattern, tag] of KEYWORD_TAGS) {
+    if (pattern.test(haystack)) tags.add(tag);
+  }
+  if (inputs.includes('image') && propertyNames(inputSchema).some(name => /^mask(_url|_image_url)?$/.test(name))) {
+    tags.add('inpainting');
+  }
+
+  return { taskType, tags: Array.from(tags).sort() };
+}
+
+/**
+ * Apply an admin override on top of the classifier's result
+ */
+export function applyTaskOverride(
+  classification: TaskClassification,
+  override: TaskOverride | undefined
+): TaskClassification {
+  if (!override) return classification;
+  return {
+    taskType: override.taskType ?? classification.taskType,
+    tags: override.tags ? [...override.tags].sort() : classification.tags,
+  };
+}
@@ -0,0 +1,242 @@
+// ============================================================================
+// FAL AI TYPES
+// Shared types for the FAL API client and model sync
+// ============================================================================
+
+import type { SyncPlan } from '../services/sync-plan';
+import type { SchedulerOptions } from './scheduler';
+
+// ----------------------------------------------------------------------------
+// Client
+// ----------------------------------------------------------------------------
+
+/** Scheduler options apply to every request the client makes */
+export interface FalClientOptions extends SchedulerOptions {
+  /** Platform API base URL (default https://api.fal.ai) */
+  baseUrl?: string;
+  /** Queue API base URL (default https://queue.fal.run) */
+  queueUrl?: string;
+  /** OpenAPI document URL (default https://fal.ai/api/openapi/queue/openapi.json) */
+  schemaUrl?: string;
+}
+
+// ----------------------------------------------------------------------------
+// Catalog
+// ----------------------------------------------------------------------------
+
+export type TaskType = 'IMAGE' | 'VIDEO' | 'AUDIO' | 'TEXT' | 'MULTIMODAL';
+
+/** 'unknown': the pricing API does not know the endpoint, so no price is stored */
+export type PricingType = 'free' | 'fixed' | 'variable' | 'unknown';
+
+export interface FalModelMetadata {
+  display_name?: string;
+  category?: string;
+  description?: string;
+  status?: string;
+  tags?: string[];
+  thumbnail_url?: string;
+  [key: string]: unknown;
+}
+
+export interface FalModel {
+  endpoint_id: string;
+  metadata: FalModelMetadata;
+  openapi?: unknown;
+}
+
+export interface FalPricingItem {
+  endpoint_id: string;
+  unit_price: number;
+  unit: string;
+  currency: string;
+}
+
+export interface FalPricingResponse {
+  prices: FalPricingItem[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+export interface FalPricingResult {
+  prices: FalPricingItem[];
+  /** Requested endpoints the pricing API answered with 404 */
+  unknownEndpointIds: string[];
+}
+
+export interface FalEstimateRequest {
+  estimate_type: 'historical_api_price' | 'unit_price';
+  endpoints: Record<string, { call_quantity?: number; unit_quantity?: number }>;
+}
+
+export interface FalEstimateResponse {
+  estimates: Record<string, { cost_per_call: number; [key: string]: unknown }>;
+  [key: string]: unknown;
+}
+
+export interface FalApiError {
+  code: string;
+  message: string;
+  [key: string]: unknown;
+}
+
+// ----------------------------------------------------------------------------
+// Schema parsing
+// ----------------------------------------------------------------------------
+
+export interface ParsedParameter {
+  name: string;
+  type: string;
+  required: boolean;
+  defaultValue?: unknown;
+  minValue?: number | null;
+  maxValue?: number | null;
+  allowedValues?: unknown[] | null;
+  uiLabel?: string | null;
+  uiPlaceholder?: string | null;
+  uiHelpText?: string | null;
+  uiOrder?: number | null;
+  uiGroup?: string | null;
+}
+
+/**
+ * Row shape of the model_parameters table
+ */
+export interface ModelParameterRow {
+  model_id: string;
+  parameter_name: string;
+  parameter_type: string;
+  is_required: boolean;
+  default_value: string | null;
+  min_value: number | null;
+  max_value: number | null;
+  allowed_values: unknown[] | null;
+  ui_label: string | null;
+  ui_placeholder: string | null;
+  ui_help_text: string | null;
+  ui_order: number | null;
+  ui_group: string | null;
+}
+
+// ----------------------------------------------------------------------------
+// Parameter validation
+// ----------------------------------------------------------------------------
+
+/** schema: the model has no parameter definitions to validate against */
+export type ParameterErrorCode = 'required' | 'type' | 'min' | 'max' | 'enum' | 'unknown' | 'schema';
+
+export interface ParameterFieldError {
+  field: string;
+  code: ParameterErrorCode;
+  message: string;
+}
+
+export type ParameterValidationResult =
+  | { valid: true; params: Record<string, unknown>; errors: [] }
+  | { valid: false; params: null; errors: ParameterFieldError[] };
+
+// ----------------------------------------------------------------------------
+// Sync
+// ----------------------------------------------------------------------------
+
+export interface SyncOptions {
+  /** Rewrite every model even when its content hash is unchanged */
+  full?: boolean;
+  /** Mark models missing from the FAL catalog inactive (default true) */
+  deactivateRemoved?: boolean;
+  /**
+   * Refuse to deactivate when more than this share of known models would be
+   * removed in one run, which usually means the catalog fetch was incomplete
+   * (default 0.2)
+   */
+  maxRemovalRatio?: number;
+  /** Delete models that have been removed for longer than this many days */
+  purgeRemovedAfterDays?: number;
+  /**
+   * Only sync models matching these comma-separated globs
+   * Removal detection is skipped for filtered runs
+   */
+  modelFilter?: string;
+  /** Compute the plan without writing anything; see SyncResult.plan */
+  dryRun?: boolean;
+}
+
+export interface SyncResult {
+  modelsAdded: number;
+  /** Existing models where the model row, parameters or pricing changed */
+  modelsUpdated: number;
+  /** Existing models skipped because nothing changed */
+  modelsUnchanged: number;
+  /** Models written this run (added + updated) */
+  modelsChanged: number;
+  /** Models missing from the FAL catalog that were marked inactive */
+  modelsRemoved: number;
+  /** Previously removed models deleted after the grace period */
+  modelsPurged: number;
+  parametersAdded: number;
+  pricingUpdated: number;
+  /** Models the pricing API returned no price for; stored with pricing_type 'unknown' */
+  unknownPricing: string[];
+  errors: Array<{ model: string; error: string }>;
+  duration: number;
+  /** Set for dry runs; the counters above then describe the plan */
+  plan?: SyncPlan;
+}
+
+// ----------------------------------------------------------------------------
+// Queue (inference)
+// ----------------------------------------------------------------------------
+
+export type FalQueueStatus = 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED';
+
+export interface FalQueueLog {
+  message: string;
+  level?: string;
+  source?: string;
+  timestamp: string;
+}
+
+export interface FalQueueSubmitResponse {
+  request_id: string;
+  response_url?: string;
+  status_url?: string;
+  cancel_url?: string;
+  queue_position?: number;
+}
+
+export interface FalQueueStatusResponse {
+  status: FalQueueStatus;
+  request_id?: string;
+  queue_position?: number;
+  response_url?: string;
+  logs?: FalQueueLog[] | null;
+  metrics?: { inference_time?: number | null };
+}
+
+export interface FalQueueCancelResponse {
+  status: 'CANCELLATION_REQUESTED' | 'ALREADY_COMPLETED' | string;
+}
+
+export interface FalQueueResult<T = unknown> {
+  requestId: string;
+  data: T;
+  logs: FalQueueLog[];
+}
+
+export interface FalSubmitOptions {
+  /** Webhook FAL should call on completion instead of polling */
+  webhookUrl?: string;
+}
+
+export interface FalQueueOptions extends FalSubmitOptions {
+  /** Milliseconds between status polls (default 1000) */
+  pollInterval?: number;
+  /** Give up after this many milliseconds (default 10 minutes) */
+  timeout?: number;
+  /** Ask FAL to include logs in status responses */
+  logs?: boolean;
+  /** Cancel the request on FAL when the timeout is hit */
+  cancelOnTimeout?: boolean;
+  /** Called on every status poll; polling waits for a returned promise */
+  onStatus?: (status: FalQueueStatusResponse) => void | Promise<void>;
+}
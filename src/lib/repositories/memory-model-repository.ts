@@ -0,0 +1,236 @@
+// ============================================================================
+// IN-MEMORY MODEL REPOSITORY
+// ModelRepository kept in process memory, for local development and for
+// running the sync without a Supabase project
+// ============================================================================
+
+import type { NewModelChange } from '../services/model-history';
+import type { TaskOverride } from '../fal/task-classifier';
+import type { CreditPricingConfig } from '../services/credit-pricing';
+import type { PricingType, TaskType } from '../fal/types';
+import type {
+  CreditCostRow,
+  ModelRepository,
+  ModelSnapshot,
+  ModelSyncState,
+  ParameterSet,
+  ReplaceParametersResult,
+  StoredPricing,
+  SyncHashes,
+  SyncHashRow,
+} from './model-repository';
+
+export interface MemoryModelRepositorySeed {
+  creditPricing?: CreditPricingConfig | null;
+  /** Shorthand for an active config with only a rate */
+  creditRate?: number | null;
+  models?: Record<string, unknown>[];
+  parameters?: Record<string, unknown>[];
+  pricing?: Record<string, unknown>[];
+  taskOverrides?: Record<string, TaskOverride>;
+}
+
+export interface RecordedChange extends NewModelChange {
+  syncStartedAt: string;
+}
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function numberOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+export class MemoryModelRepository implements ModelRepository {
+  creditPricing: CreditPricingConfig | null;
+  readonly models = new Map<string, Record<string, unknown>>();
+  readonly parameters = new Map<string, Record<string, unknown>[]>();
+  readonly pricing = new Map<string, Record<string, unknown>>();
+  readonly taskOverrides = new Map<string, TaskOverride>();
+  readonly history: RecordedChange[] = [];
+
+  constructor(seed: MemoryModelRepositorySeed = {}) {
+    this.creditPricing = seed.creditPricing ?? (seed.creditRate ? {
+      version: 1,
+      cost_per_credit_usd: seed.creditRate,
+      task_type_multipliers: {},
+      model_multipliers: {},
+      min_credits: 1,
+      task_type_min_credits: {},
+      is_active: true,
+      effective_from: new Date(0).toISOString(),
+      effective_until: null,
+      note: null,
+    } : null);
+    for (const row of seed.models || []) {
+      this.models.set(String(row.id), copy(row));
+    }
+    for (const row of seed.parameters || []) {
+      const rows = this.parameters.get(String(row.model_id)) || [];
+      rows.push(copy(row));
+      this.parameters.set(String(row.model_id), rows);
+    }
+    for (const row of seed.pricing || []) {
+      this.pricing.set(String(row.model_id), copy(row));
+    }
+    for (const [modelId, override] of Object.entries(seed.taskOverrides || {})) {
+      this.taskOverrides.set(modelId, copy(override));
+    }
+  }
+
+  async getActiveCreditPricing(): Promise<CreditPricingConfig | null> {
+    return this.creditPricing ? copy(this.creditPricing) : null;
+  }
+
+  async listStoredPricing(): Promise<StoredPricing[]> {
+    return Array.from(this.pricing, ([modelId, row]) => ({
+      model_id: modelId,
+      task_type: (this.models.get(modelId)?.task_type ?? null) as TaskType | null,
+      price_per_call: numberOrNull(row.price_per_call),
+      pricing_type: row.pricing_type as PricingType,
+      credit_cost: numberOrNull(row.credit_cost),
+    }))
+      .sort((a, b) => a.model_id.localeCompare(b.model_id));
+  }
+
+  async listModelIds(): Promise<string[]> {
+    return Array.from(this.models.keys()).sort();
+  }
+
+  async listSyncStates(providerId: string): Promise<Map<string, ModelSyncState>> {
+    const states = new Map<string, ModelSyncState>();
+    for (const [id, model] of this.models) {
+      if (model.provider_id !== providerId) continue;
+      states.set(id, {
+        hashes: model.sync_hashes ? copy(model.sync_hashes as SyncHashes) : null,
+        removedAt: (model.removed_at as string | null) || null,
+      });
+    }
+    return states;
+  }
+
+  async listTaskOverrides(): Promise<Map<string, TaskOverride>> {
+    return new Map(Array.from(this.taskOverrides, ([id, override]) => [id, copy(override)]));
+  }
+
+  async loadSnapshots(ids: string[]): Promise<Map<string, ModelSnapshot>> {
+    const snapshots = new Map<string, ModelSnapshot>();
+    for (const id of ids) {
+      snapshots.set(id, {
+        model: this.models.has(id) ? copy(this.models.get(id)!) : null,
+        parameters: copy(this.parameters.get(id) || []),
+        pricing: this.pricing.has(id) ? copy(this.pricing.get(id)!) : null,
+      });
+    }
+    return snapshots;
+  }
+
+  async insertModels(rows: Record<string, unknown>[]): Promise<void> {
+    // All or nothing, like a single INSERT statement
+    for (const row of rows) {
+      if (this.models.has(String(row.id))) {
+        throw new Error(`Failed to insert models: duplicate id ${row.id}`);
+      }
+    }
+    for (const row of rows) {
+      this.models.set(String(row.id), copy(row));
+    }
+  }
+
+  async updateModels(rows: Record<string, unknown>[]): Promise<void> {
+    for (const row of rows) {
+      const id = String(row.id);
+      this.models.set(id, { ...this.models.get(id), ...copy(row) });
+    }
+  }
+
+  async replaceParameters(sets: ParameterSet[]): Promise<ReplaceParametersResult> {
+    const result: ReplaceParametersResult = { replaced: [], failed: [] };
+
+    for (const set of sets) {
+      if (!this.models.has(set.modelId)) {
+        result.failed.push({ modelId: set.modelId, error: `Model ${set.modelId} does not exist` });
+        continue;
+      }
+      this.parameters.set(
+        set.modelId,
+        set.parameters.map(row => ({ ...copy(row), model_id: set.modelId }))
+      );
+      result.replaced.push({ modelId: set.modelId, inserted: set.parameters.length });
+    }
+
+    return result;
+  }
+
+  async upsertPricing(rows: Record<string, unknown>[]): Promise<void> {
+    for (const row of rows) {
+      if (!this.models.has(String(row.model_id))) {
+        throw new Error(`Failed to upsert pricing: model ${row.model_id} does not exist`);
+      }
+      // Postgres checks not null columns on the proposed row before it
+      // resolves the conflict, so a partial row fails even as an update
+      if (row.pricing_type === undefined || row.pricing_type === null) {
+        throw new Error(`Failed to upsert pricing: ${row.model_id} has no pricing_type`);
+      }
+    }
+    for (const row of rows) {
+      const modelId = String(row.model_id);
+      this.pricing.set(modelId, { ...this.pricing.get(modelId), ...copy(row) });
+    }
+  }
+
+  async updateCreditCosts(rows: CreditCostRow[]): Promise<void> {
+    for (const row of rows) {
+      const pricing = this.pricing.get(row.model_id);
+      if (pricing) {
+        Object.assign(pricing, { credit_cost: row.credit_cost, last_updated: row.last_updated });
+      }
+    }
+  }
+
+  async setSyncHashes(rows: SyncHashRow[]): Promise<void> {
+    for (const row of rows) {
+      const model = this.models.get(row.id);
+      if (model) {
+        model.content_hash = row.content_hash;
+        model.sync_hashes = copy(row.sync_hashes);
+      }
+    }
+  }
+
+  async setTaskOverride(modelId: string, override: TaskOverride): Promise<void> {
+    this.taskOverrides.set(modelId, copy(override));
+  }
+
+  async clearTaskOverride(modelId: string): Promise<void> {
+    this.taskOverrides.delete(modelId);
+  }
+
+  async deactivateModels(ids: string[], removedAt: string): Promise<void> {
+    for (const id of ids) {
+      const model = this.models.get(id);
+      if (model && !model.removed_at) {
+        Object.assign(model, { is_active: false, removed_at: removedAt, updated_at: removedAt });
+      }
+    }
+  }
+
+  async listRemovedBefore(providerId: string, cutoff: string): Promise<string[]> {
+    return Array.from(this.models)
+      .filter(([, model]) =>
+        model.provider_id === providerId && typeof model.removed_at === 'string' && model.removed_at < cutoff
+      )
+      .map(([id]) => id);
+  }
+
+  async deleteModel(id: string): Promise<void> {
+    this.parameters.delete(id);
+    this.pricing.delete(id);
+    this.models.delete(id);
+  }
+
+  async recordChanges(changes: NewModelChange[], syncStartedAt: string): Promise<void> {
+    this.history.push(...changes.map(change => ({ ...copy(change), syncStartedAt })));
+  }
+}
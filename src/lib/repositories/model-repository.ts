@@ -0,0 +1,108 @@
+// ============================================================================
+// MODEL REPOSITORY
+// Storage interface for synced models, parameters, pricing and credit config
+// ============================================================================
+
+import type { NewModelChange } from '../services/model-history';
+import type { TaskOverride } from '../fal/task-classifier';
+import type { CreditPricingConfig } from '../services/credit-pricing';
+import type { PricingType, TaskType } from '../fal/types';
+
+/**
+ * Per-table content hashes stored on each model row
+ * Timestamps are excluded so an unchanged model hashes the same on every run
+ */
+export interface SyncHashes {
+  model: string;
+  parameters: string;
+  pricing: string;
+}
+
+/** Stored sync state of a model */
+export interface ModelSyncState {
+  hashes: SyncHashes | null;
+  removedAt: string | null;
+}
+
+/** Current rows of a model, used to diff against what a sync writes */
+export interface ModelSnapshot {
+  model: Record<string, unknown> | null;
+  parameters: Record<string, unknown>[];
+  pricing: Record<string, unknown> | null;
+}
+
+export interface ParameterSet {
+  modelId: string;
+  /** model_parameters rows; any model_id on a row is ignored */
+  parameters: Record<string, unknown>[];
+}
+
+export interface ReplaceParametersResult {
+  replaced: Array<{ modelId: string; inserted: number }>;
+  failed: Array<{ modelId: string; error: string }>;
+}
+
+/** A model's stored pricing, as the credit cost recompute reads it */
+export interface StoredPricing {
+  model_id: string;
+  task_type: TaskType | null;
+  price_per_call: number | null;
+  pricing_type: PricingType;
+  credit_cost: number | null;
+}
+
+/** A recomputed credit cost for an existing pricing row */
+export interface CreditCostRow {
+  model_id: string;
+  credit_cost: number;
+  last_updated: string;
+}
+
+export interface SyncHashRow {
+  id: string;
+  content_hash: string;
+  sync_hashes: SyncHashes;
+}
+
+/**
+ * Everything syncFalModels and the parameter refresh read and write
+ * Write methods throw on failure; a failed call must leave its rows unchanged
+ */
+export interface ModelRepository {
+  /** The active credit pricing config, or null if none is active */
+  getActiveCreditPricing(): Promise<CreditPricingConfig | null>;
+  /** Pricing of every model that has a pricing row */
+  listStoredPricing(): Promise<StoredPricing[]>;
+
+  /** Ids of all stored models, sorted */
+  listModelIds(): Promise<string[]>;
+  /** Sync state of every model from a provider */
+  listSyncStates(providerId: string): Promise<Map<string, ModelSyncState>>;
+  /** Admin task classification overrides, by model id */
+  listTaskOverrides(): Promise<Map<string, TaskOverride>>;
+  /** Current rows for the given models; every id gets an entry */
+  loadSnapshots(ids: string[]): Promise<Map<string, ModelSnapshot>>;
+
+  insertModels(rows: Record<string, unknown>[]): Promise<void>;
+  /** Upsert by id */
+  updateModels(rows: Record<string, unknown>[]): Promise<void>;
+  /** Replace each model's parameters atomically, reporting failures per model */
+  replaceParameters(sets: ParameterSet[]): Promise<ReplaceParametersResult>;
+  /** Upsert by model_id, keeping columns the rows omit */
+  upsertPricing(rows: Record<string, unknown>[]): Promise<void>;
+  /** Update credit costs of existing pricing rows; other columns are kept */
+  updateCreditCosts(rows: CreditCostRow[]): Promise<void>;
+  setSyncHashes(rows: SyncHashRow[]): Promise<void>;
+  /** Upsert an admin task override by model id; the next sync applies it */
+  setTaskOverride(modelId: string, override: TaskOverride): Promise<void>;
+  clearTaskOverride(modelId: string): Promise<void>;
+
+  /** Mark models inactive and removed, skipping ones already removed */
+  deactivateModels(ids: string[], removedAt: string): Promise<void>;
+  /** Models from a provider removed before the cutoff */
+  listRemovedBefore(providerId: string, cutoff: string): Promise<string[]>;
+  /** Delete a model with its parameters and pricing */
+  deleteModel(id: string): Promise<void>;
+
+  recordChanges(changes: NewModelChange[], syncStartedAt: string): Promise<void>;
+}
@@ -0,0 +1,354 @@
+// ============================================================================
+// SUPABASE MODEL REPOSITORY
+// ModelRepository backed by the Supabase models, model_parameters and
+// model_pricing tables
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+import { recordModelChanges, type NewModelChange } from '../services/model-history';
+import type { TaskOverride } from '../fal/task-classifier';
+import type { TaskType } from '../fal/types';
+import { toCreditPricingConfig, type CreditPricingConfig } from '../services/credit-pricing';
+import type {
+  CreditCostRow,
+  ModelRepository,
+  ModelSnapshot,
+  ModelSyncState,
+  ParameterSet,
+  ReplaceParametersResult,
+  StoredPricing,
+  SyncHashRow,
+} from './model-repository';
+
+// PostgREST caps responses at 1000 rows
+const PAGE_SIZE = 1000;
+// Keeps .in() filters under URL length limits
+const ID_FILTER_CHUNK_SIZE = 100;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export class SupabaseModelRepository implements ModelRepository {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createAdminClient();
+  }
+
+  async getActiveCreditPricing(): Promise<CreditPricingConfig | null> {
+    const { data, error } = await this.supabase
+      .from('credit_pricing_config')
+      .select('*')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch credit config: ${error.message}`);
+    }
+
+    return data ? toCreditPricingConfig(data) : null;
+  }
+
+  async listStoredPricing(): Promise<StoredPricing[]> {
+    const rows: StoredPricing[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('model_catalog')
+        .select('id, task_type, price_per_call, pricing_type, credit_cost')
+        .not('pricing_type', 'is', null)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch model pricing: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        rows.push({
+          model_id: row.id,
+          task_type: row.task_type,
+          price_per_call: row.price_per_call === null ? null : Number(row.price_per_call),
+          pricing_type: row.pricing_type,
+          credit_cost: row.credit_cost,
+        });
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  async listModelIds(): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('models')
+        .select('id')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch models: ${error.message}`);
+      }
+
+      ids.push(...(data || []).map((row: { id: string }) => row.id));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return ids;
+  }
+
+  async listSyncStates(providerId: string): Promise<Map<string, ModelSyncState>> {
+    const states = new Map<string, ModelSyncState>();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('models')
+        .select('id, sync_hashes, removed_at')
+        .eq('provider_id', providerId)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch existing models: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        states.set(row.id, {
+          hashes: row.sync_hashes || null,
+          removedAt: row.removed_at || null,
+        });
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return states;
+  }
+
+  async listTaskOverrides(): Promise<Map<string, TaskOverride>> {
+    const overrides = new Map<string, TaskOverride>();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('model_task_overrides')
+        .select('model_id, task_type, task_tags')
+        .order('model_id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch task overrides: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        overrides.set(row.model_id, {
+          taskType: row.task_type as TaskType | null,
+          tags: row.task_tags as string[] | null,
+        });
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return overrides;
+  }
+
+  async loadSnapshots(ids: string[]): Promise<Map<string, ModelSnapshot>> {
+    const snapshots = new Map<string, ModelSnapshot>();
+    if (ids.length === 0) return snapshots;
+
+    const [models, parameters, pricing] = await Promise.all([
+      this.selectIn('models', 'id', ids),
+      this.selectIn('model_parameters', 'model_id', ids),
+      this.selectIn('model_pricing', 'model_id', ids),
+    ]);
+
+    for (const id of ids) {
+      snapshots.set(id, { model: null, parameters: [], pricing: null });
+    }
+    for (const row of models) snapshots.get(String(row.id))!.model = row;
+    for (const row of parameters) snapshots.get(String(row.model_id))?.parameters.push(row);
+    for (const row of pricing) snapshots.get(String(row.model_id))!.pricing = row;
+
+    return snapshots;
+  }
+
+  async insertModels(rows: Record<string, unknown>[]): Promise<void> {
+    const { error } = await this.supabase.from('models').insert(rows);
+    if (error) {
+      throw new Error(`Failed to insert models: ${error.message}`);
+    }
+  }
+
+  async updateModels(rows: Record<string, unknown>[]): Promise<void> {
+    const { error } = await this.supabase.from('models').upsert(rows, { onConflict: 'id' });
+    if (error) {
+      throw new Error(`Failed to update models: ${error.message}`);
+    }
+  }
+
+  /**
+   * Each model's delete + insert runs in a single database transaction (see
+   * replace_model_parameters), so a failure leaves that model's previous
+   * parameters in place and is reported per model
+   */
+  async replaceParameters(sets: ParameterSet[]): Promise<ReplaceParametersResult> {
+    const result: ReplaceParametersResult = { replaced: [], failed: [] };
+    if (sets.length === 0) return result;
+
+    const { data, error } = await this.supabase.rpc('replace_model_parameters', {
+      p_sets: sets.map(set => ({
+        model_id: set.modelId,
+        parameters: set.parameters,
+      })),
+    });
+
+    // The call itself failed: nothing was changed for any model in the batch
+    if (error) {
+      for (const set of sets) {
+        result.failed.push({ modelId: set.modelId, error: error.message });
+      }
+      return result;
+    }
+
+    const rows = (data || []) as Array<{ model_id: string; inserted: number; error: string | null }>;
+    for (const row of rows) {
+      if (row.error) {
+        result.failed.push({ modelId: row.model_id, error: row.error });
+      } else {
+        result.replaced.push({ modelId: row.model_id, inserted: row.inserted });
+      }
+    }
+
+    return result;
+  }
+
+  async upsertPricing(rows: Record<string, unknown>[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('model_pricing')
+      .upsert(rows, { onConflict: 'model_id', defaultToNull: false });
+    if (error) {
+      throw new Error(`Failed to upsert pricing: ${error.message}`);
+    }
+  }
+
+  async updateCreditCosts(rows: CreditCostRow[]): Promise<void> {
+    const { error } = await this.supabase.rpc('set_model_credit_costs', { p_rows: rows });
+    if (error) {
+      throw new Error(`Failed to update credit costs: ${error.message}`);
+    }
+  }
+
+  async setSyncHashes(rows: SyncHashRow[]): Promise<void> {
+    const { error } = await this.supabase.rpc('set_model_sync_hashes', { p_rows: rows });
+    if (error) {
+      throw new Error(`Failed to store sync hashes: ${error.message}`);
+    }
+  }
+
+  async setTaskOverride(modelId: string, override: TaskOverride): Promise<void> {
+    const { error } = await this.supabase.from('model_task_overrides').upsert({
+      model_id: modelId,
+      task_type: override.taskType,
+      task_tags: override.tags,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) {
+      throw new Error(`Failed to save task override for ${modelId}: ${error.message}`);
+    }
+  }
+
+  async clearTaskOverride(modelId: string): Promise<void> {
+    const { error } = await this.supabase.from('model_task_overrides').delete().eq('model_id', modelId);
+    if (error) {
+      throw new Error(`Failed to delete task override for ${modelId}: ${error.message}`);
+    }
+  }
+
+  async deactivateModels(ids: string[], removedAt: string): Promise<void> {
+    for (const idChunk of chunk(ids, ID_FILTER_CHUNK_SIZE)) {
+      const { error } = await this.supabase
+        .from('models')
+        .update({ is_active: false, removed_at: removedAt, updated_at: removedAt })
+        .in('id', idChunk)
+        .is('removed_at', null);
+
+      if (error) {
+        throw new Error(`Failed to deactivate models: ${error.message}`);
+      }
+    }
+  }
+
+  async listRemovedBefore(providerId: string, cutoff: string): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('models')
+        .select('id')
+        .eq('provider_id', providerId)
+        .lt('removed_at', cutoff)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch removed models: ${error.message}`);
+      }
+
+      ids.push(...(data || []).map((row: { id: string }) => row.id));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return ids;
+  }
+
+  async deleteModel(id: string): Promise<void> {
+    // One transaction: a model still referenced, e.g. by generations, keeps
+    // its parameters and pricing
+    const { error } = await this.supabase.rpc('delete_model', { p_model_id: id });
+    if (error) {
+      throw new Error(`Failed to delete model ${id}: ${error.message}`);
+    }
+  }
+
+  async recordChanges(changes: NewModelChange[], syncStartedAt: string): Promise<void> {
+    await recordModelChanges(this.supabase, changes, syncStartedAt);
+  }
+
+  /**
+   * Select all rows whose column matches any of ids
+   * Chunks the id list and pages each chunk past the 1000 row limit; pages
+   * are ordered by a unique key so none are skipped or repeated
+   */
+  private async selectIn(table: string, column: string, ids: string[]): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+
+    for (const idChunk of chunk(ids, ID_FILTER_CHUNK_SIZE)) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        let query = this.supabase.from(table).select('*').in(column, idChunk).order(column);
+        if (column !== 'id') {
+          query = query.order('id');
+        }
+        const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          throw new Error(`Failed to read ${table}: ${error.message}`);
+        }
+
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+
+    return rows;
+  }
+}
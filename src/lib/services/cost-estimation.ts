@@ -0,0 +1,230 @@
+// ============================================================================
+// COST ESTIMATION SERVICE
+// Quotes the USD and credit cost of a concrete generation request before it
+// runs. Fails closed: a request that can't be priced throws, never quotes 0
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+import { FalApiClient } from '../fal/api-client';
+import {
+  estimateRequestPrice,
+  type PriceEstimate,
+  type PricingUnit,
+} from '../fal/pricing';
+import { validateGenerationInput } from './parameter-validation';
+import { getModelCuration, type ModelCuration } from './model-curation';
+import {
+  creditCost,
+  getActiveCreditPricing,
+  marginFor,
+  type CreditPricingConfig,
+} from './credit-pricing';
+import type { PricingType, TaskType } from '../fal/types';
+
+/** Where a quote's price came from */
+export type QuoteSource = 'cached-pricing' | 'pricing-engine' | 'fal-estimate';
+
+/**
+ * exact: fixed price, or a quantity fully determined by the params
+ * estimated: the quantity rests on an assumption, e.g. output tokens
+ * historical: FAL's average cost per call for the model
+ */
+export type QuoteConfidence = 'exact' | 'estimated' | 'historical';
+
+export interface CostQuote {
+  modelId: string;
+  /** What FAL charges us */
+  priceUsd: number;
+  /** priceUsd with margin and markup, converted at creditRate */
+  credits: number;
+  /** USD per credit the quote was converted at */
+  creditRate: number;
+  /** Credit pricing config version the quote used */
+  creditPricingVersion: number;
+  /** From the credit pricing config */
+  margin: number;
+  /** From the model's curation */
+  markup: number;
+  source: QuoteSource;
+  confidence: QuoteConfidence;
+  /** Billed quantity when the pricing engine priced the request */
+  quantity: number | null;
+  unit: PricingUnit | null;
+}
+
+/**
+ * The cached pricing a quote starts from, as in the model_catalog view
+ */
+export interface ModelPricingRow {
+  task_type: TaskType | null;
+  price_per_call: number | null;
+  pricing_type: PricingType;
+  pricing_details: Record<string, unknown> | null;
+}
+
+export interface QuoteOptions {
+  supabase?: SupabaseClient;
+  falClient?: FalApiClient;
+  /** Params were already validated and have defaults applied */
+  normalized?: boolean;
+  /** The model's curation, if already loaded; null when it has none */
+  curation?: ModelCuration | null;
+}
+
+/**
+ * Thrown when a request can't be priced; nothing should run
+ */
+export class CostEstimationError extends Error {
+  constructor(
+    public readonly modelId: string,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`Cannot price ${modelId}: ${message}`, options);
+    this.name = 'CostEstimationError';
+  }
+}
+
+/**
+ * Ask FAL for the model's historical cost per call
+ */
+async function falHistoricalPrice(modelId: string, falClient: FalApiClient): Promise<number> {
+  let response;
+  try {
+    response = await falClient.estimateBatch({ [modelId]: 1 });
+  } catch (error) {
+    throw new CostEstimationError(modelId, 'FAL estimate failed', { cause: error });
+  }
+
+  const cost = response.estimates?.[modelId]?.cost_per_call;
+  if (typeof cost !== 'number' || !Number.isFinite(cost) || cost <= 0) {
+    throw new CostEstimationError(modelId, 'FAL returned no estimate');
+  }
+  return cost;
+}
+
+/**
+ * Quote a request from the model's cached pricing
+ * Fixed models use the cached price, and a model is only free when FAL
+ * reported a unit price of 0; variable models are priced by the pricing
+ * engine from the params, or by FAL's estimate when the params don't
+ * determine the billed quantity. Credits include the markup
+ */
+export async function quoteFromPricing(
+  modelId: string,
+  pricing: ModelPricingRow,
+  params: Record<string, unknown>,
+  creditPricing: CreditPricingConfig,
+  falClient: FalApiClient,
+  markup = 1
+): Promise<CostQuote> {
+  const target = { modelId, taskType: pricing.task_type };
+
+  const quote = (
+    priceUsd: number,
+    source: QuoteSource,
+    confidence: QuoteConfidence,
+    estimate?: PriceEstimate
+  ): CostQuote => ({
+    modelId,
+    priceUsd,
+    credits: creditCost(priceUsd, creditPricing, target, markup),
+    creditRate: creditPricing.cost_per_credit_usd,
+    creditPricingVersion: creditPricing.version,
+    margin: marginFor(creditPricing, target),
+    markup,
+    source,
+    confidence,
+    quantity: estimate?.quantity ?? null,
+    unit: estimate?.unit ?? null,
+  });
+
+  if (pricing.pricing_type === 'unknown') {
+    throw new CostEstimationError(modelId, 'pricing is unknown');
+  }
+
+  const details = pricing.pricing_details || {};
+  const unitPrice = typeof details.unit_price === 'number' ? details.unit_price : null;
+  const unit = typeof details.unit === 'string' ? details.unit : null;
+
+  if (pricing.pricing_type === 'free') {
+    if (unitPrice !== 0) {
+      throw new CostEstimationError(modelId, 'FAL reported no price');
+    }
+    return quote(0, 'cached-pricing', 'exact');
+  }
+
+  if (pricing.pricing_type === 'fixed') {
+    if (unitPrice === null || pricing.price_per_call === null) {
+      throw new CostEstimationError(modelId, 'no cached price');
+    }
+    return quote(pricing.price_per_call, 'cached-pricing', 'exact');
+  }
+
+  if (unitPrice !== null) {
+    const estimate = estimateRequestPrice(unitPrice, unit, params);
+    if (estimate.price !== null) {
+      // Output tokens can't be known before the model answers
+      const confidence = estimate.unit === 'token' ? 'estimated' : 'exact';
+      return quote(estimate.price, 'pricing-engine', confidence, estimate);
+    }
+  }
+
+  return quote(await falHistoricalPrice(modelId, falClient), 'fal-estimate', 'historical');
+}
+
+/**
+ * Quote the cost of running a model with the given params
+ * Throws CostEstimationError if the request can't be priced and
+ * ParameterValidationError for invalid params
+ */
+export async function quoteGenerationCost(
+  modelId: string,
+  params: Record<string, unknown>,
+  options: QuoteOptions = {}
+): Promise<CostQuote> {
+  const supabase = options.supabase || createAdminClient();
+
+  const { data: pricing, error } = await supabase
+    .from('model_catalog')
+    .select('task_type, price_per_call, pricing_type, pricing_details')
+    .eq('id', modelId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CostEstimationError(modelId, `failed to load pricing: ${error.message}`);
+  }
+  if (!pricing?.pricing_type) {
+    throw new CostEstimationError(modelId, 'no pricing found');
+  }
+
+  let curation = options.curation;
+  if (curation === undefined) {
+    try {
+      curation = await getModelCuration(modelId, supabase);
+    } catch (curationError) {
+      throw new CostEstimationError(modelId, 'failed to load curation', { cause: curationError });
+    }
+  }
+
+  const input = options.normalized
+    ? params
+    : await validateGenerationInput(modelId, params, { supabase, curation });
+
+  let creditPricing: CreditPricingConfig;
+  try {
+    creditPricing = await getActiveCreditPricing(supabase);
+  } catch (configError) {
+    throw new CostEstimationError(modelId, 'no usable credit pricing config', { cause: configError });
+  }
+
+  return quoteFromPricing(
+    modelId,
+    pricing as ModelPricingRow,
+    input,
+    creditPricing,
+    options.falClient || new FalApiClient(),
+    curation?.price_markup ?? 1
+  );
+}
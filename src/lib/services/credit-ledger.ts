@@ -0,0 +1,222 @@
+// ============================================================================
+// CREDIT LEDGER SERVICE
+// Grants, purchases, holds, captures and refunds on the double-entry ledger
+// All balance changes run inside Postgres functions (see credit_ledger migration)
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+
+export type CreditTransactionType = 'grant' | 'purchase' | 'hold' | 'capture' | 'release' | 'refund';
+
+export interface CreditBalance {
+  available: number;
+  held: number;
+}
+
+export interface CreditTransaction {
+  id: string;
+  user_id: string;
+  type: CreditTransactionType;
+  amount: number;
+  generation_id: string | null;
+  reference: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * Thrown when a user doesn't have enough available credits for a hold
+ */
+export class InsufficientCreditsError extends Error {
+  constructor(
+    public readonly userId: string,
+    public readonly required: number,
+    public readonly available: number | null = null
+  ) {
+    super(
+      available === null
+        ? `Insufficient credits: ${required} required`
+        : `Insufficient credits: ${required} required, ${available} available`
+    );
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+/**
+ * Parse "INSUFFICIENT_CREDITS: balance X, required Y" raised by credit_place_hold
+ */
+function parseInsufficientCredits(message: string): { available: number; required: number } | null {
+  const match = message.match(/INSUFFICIENT_CREDITS: balance (\d+), required (\d+)/);
+  if (!match) return null;
+  return { available: Number(match[1]), required: Number(match[2]) };
+}
+
+function assertPositiveAmount(amount: number): void {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error(`Credit amount must be a positive integer, got ${amount}`);
+  }
+}
+
+export class CreditLedgerService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createAdminClient();
+  }
+
+  /**
+   * Call a ledger function and return its uuid result
+   */
+  private async rpc(fn: string, args: Record<string, unknown>): Promise<string> {
+    const { data, error } = await this.supabase.rpc(fn, args);
+    if (error) {
+      throw new Error(`Credit ledger ${fn} failed: ${error.message}`);
+    }
+    return data as string;
+  }
+
+  /**
+   * Current available and held balance for a user
+   */
+  async getBalance(userId: string): Promise<CreditBalance> {
+    const { data, error } = await this.supabase
+      .from('credit_balances')
+      .select('available, held')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch credit balance: ${error.message}`);
+    }
+
+    return {
+      available: Number(data?.available ?? 0),
+      held: Number(data?.held ?? 0),
+    };
+  }
+
+  /**
+   * Recent ledger transactions for a user, newest first
+   */
+  async listTransactions(userId: string, limit: number = 50): Promise<CreditTransaction[]> {
+    const { data, error } = await this.supabase
+      .from('credit_transactions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch credit transactions: ${error.message}`);
+    }
+
+    return (data || []) as CreditTransaction[];
+  }
+
+  /**
+   * Give free credits to a user (signup bonus, support credit, ...)
+   * Pass a reference to make repeated calls idempotent
+   */
+  async grant(
+    userId: string,
+    amount: number,
+    reference?: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<string> {
+    assertPositiveAmount(amount);
+    return this.rpc('credit_add', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_type: 'grant',
+      p_reference: reference ?? null,
+      p_metadata: metadata,
+    });
+  }
+
+  /**
+   * Add purchased credits; reference should be the payment id
+   */
+  async purchase(
+    userId: string,
+    amount: number,
+    reference: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<string> {
+    assertPositiveAmount(amount);
+    return this.rpc('credit_add', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_type: 'purchase',
+      p_reference: reference,
+      p_metadata: metadata,
+    });
+  }
+
+  /**
+   * Reserve credits before work starts
+   * Throws InsufficientCreditsError when the available balance is too low
+   */
+  async placeHold(userId: string, amount: number, generationId?: string): Promise<string> {
+    assertPositiveAmount(amount);
+
+    const { data, error } = await this.supabase.rpc('credit_place_hold', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_generation_id: generationId ?? null,
+    });
+
+    if (error) {
+      const insufficient = parseInsufficientCredits(error.message);
+      if (insufficient) {
+        throw new InsufficientCreditsError(userId, insufficient.required, insufficient.available);
+      }
+      throw new Error(`Credit ledger credit_place_hold failed: ${error.message}`);
+    }
+
+    return data as string;
+  }
+
+  /**
+   * Charge a hold; capturing less than the hold releases the remainder
+   */
+  async captureHold(holdId: string, amount?: number): Promise<string> {
+    if (amount !== undefined) assertPositiveAmount(amount);
+    return this.rpc('credit_settle_hold', {
+      p_hold_id: holdId,
+      p_capture: true,
+      p_amount: amount ?? null,
+    });
+  }
+
+  /**
+   * Return a held amount to the user's available balance
+   */
+  async releaseHold(holdId: string): Promise<string> {
+    return this.rpc('credit_settle_hold', {
+      p_hold_id: holdId,
+      p_capture: false,
+      p_amount: null,
+    });
+  }
+
+  /**
+   * Give back credits that were captured for a generation
+   * Fails with REFUND_EXCEEDS_CAPTURED past what is left to refund
+   */
+  async refund(
+    userId: string,
+    amount: number,
+    generationId: string,
+    options: { reference?: string; metadata?: Record<string, unknown> } = {}
+  ): Promise<string> {
+    assertPositiveAmount(amount);
+    return this.rpc('credit_refund', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_generation_id: generationId,
+      p_reference: options.reference ?? null,
+      p_metadata: options.metadata ?? {},
+    });
+  }
+}
@@ -0,0 +1,284 @@
+// ============================================================================
+// CREDIT PRICING SERVICE
+// Versioned credit pricing: USD per credit, margin multipliers per task type
+// and per model, and minimum credit floors. Exactly one version is active;
+// drafts wait for their effective date. There is no default rate
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+import type { TaskType } from '../fal/types';
+
+const TASK_TYPES: TaskType[] = ['IMAGE', 'VIDEO', 'AUDIO', 'TEXT', 'MULTIMODAL'];
+
+export interface CreditPricingConfig {
+  version: number;
+  cost_per_credit_usd: number;
+  task_type_multipliers: Partial<Record<TaskType, number>>;
+  /** Replaces the task type multiplier */
+  model_multipliers: Record<string, number>;
+  min_credits: number;
+  /** Replaces min_credits */
+  task_type_min_credits: Partial<Record<TaskType, number>>;
+  is_active: boolean;
+  /** When a draft is due, or when the version was activated */
+  effective_from: string;
+  /** When the version was superseded */
+  effective_until: string | null;
+  note: string | null;
+}
+
+export type CreditPricingStatus = 'active' | 'draft' | 'retired';
+
+export type NewCreditPricingConfig = Pick<CreditPricingConfig, 'cost_per_credit_usd'> &
+  Partial<
+    Pick<
+      CreditPricingConfig,
+      | 'task_type_multipliers'
+      | 'model_multipliers'
+      | 'min_credits'
+      | 'task_type_min_credits'
+      | 'effective_from'
+      | 'note'
+    >
+  >;
+
+/** What a price is being converted for */
+export interface CreditTarget {
+  modelId: string;
+  taskType: TaskType | null;
+}
+
+/**
+ * Thrown when no credit pricing config is active or a new one is invalid
+ */
+export class CreditPricingError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'CreditPricingError';
+  }
+}
+
+/**
+ * A jsonb map of numbers; entries that aren't numbers are dropped
+ */
+function numberMap(value: unknown): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value)
+      .map(([key, entry]) => [key, Number(entry)] as const)
+      .filter(([, entry]) => Number.isFinite(entry))
+  );
+}
+
+/**
+ * Normalize a credit_pricing_config row; numeric columns arrive as strings
+ */
+export function toCreditPricingConfig(row: Record<string, unknown>): CreditPricingConfig {
+  return {
+    version: Number(row.version),
+    cost_per_credit_usd: Number(row.cost_per_credit_usd),
+    task_type_multipliers: numberMap(row.task_type_multipliers),
+    model_multipliers: numberMap(row.model_multipliers),
+    min_credits: Number(row.min_credits ?? 1),
+    task_type_min_credits: numberMap(row.task_type_min_credits),
+    is_active: !!row.is_active,
+    effective_from: String(row.effective_from),
+    effective_until: typeof row.effective_until === 'string' ? row.effective_until : null,
+    note: typeof row.note === 'string' ? row.note : null,
+  };
+}
+
+export function creditPricingStatus(config: CreditPricingConfig): CreditPricingStatus {
+  if (config.is_active) return 'active';
+  return config.effective_until ? 'retired' : 'draft';
+}
+
+/**
+ * Margin multiplier for a model: its own, else its task type's, else 1
+ */
+export function marginFor(config: CreditPricingConfig, target: CreditTarget): number {
+  return (
+    config.model_multipliers[target.modelId] ??
+    (target.taskType ? config.task_type_multipliers[target.taskType] : undefined) ??
+    1
+  );
+}
+
+export function minCreditsFor(config: CreditPricingConfig, target: CreditTarget): number {
+  return (target.taskType ? config.task_type_min_credits[target.taskType] : undefined) ?? config.min_credits;
+}
+
+/**
+ * Credits charged for a USD price
+ * The price is multiplied by the margin and any curated markup, converted
+ * at the config's rate, rounded up and raised to the minimum floor
+ */
+export function creditCost(
+  priceUsd: number,
+  config: CreditPricingConfig,
+  target: CreditTarget,
+  markup = 1
+): number {
+  const exact = (priceUsd * marginFor(config, target) * markup) / config.cost_per_credit_usd;
+  // Float noise like 12.000000000000002 mustn't cost an extra credit
+  const credits = Math.ceil(Math.round(exact * 1_000_000) / 1_000_000);
+  return Math.max(minCreditsFor(config, target), credits);
+}
+
+/**
+ * Problems with a new config, empty if it can be saved
+ */
+export function validateCreditPricingConfig(config: NewCreditPricingConfig): string[] {
+  const errors: string[] = [];
+  const isPositive = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+  const isFloor = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+  if (!isPositive(config.cost_per_credit_usd)) {
+    errors.push('Cost per credit must be a positive number of USD');
+  }
+  if (config.min_credits !== undefined && !isFloor(config.min_credits)) {
+    errors.push('Minimum credits must be a whole number of at least 1');
+  }
+  for (const [taskType, multiplier] of Object.entries(config.task_type_multipliers || {})) {
+    if (!TASK_TYPES.includes(taskType as TaskType)) {
+      errors.push(`Unknown task type: ${taskType}`);
+    } else if (!isPositive(multiplier)) {
+      errors.push(`Multiplier for ${taskType} must be positive`);
+    }
+  }
+  for (const [modelId, multiplier] of Object.entries(config.model_multipliers || {})) {
+    if (!isPositive(multiplier)) {
+      errors.push(`Multiplier for ${modelId} must be positive`);
+    }
+  }
+  for (const [taskType, floor] of Object.entries(config.task_type_min_credits || {})) {
+    if (!TASK_TYPES.includes(taskType as TaskType)) {
+      errors.push(`Unknown task type: ${taskType}`);
+    } else if (!isFloor(floor)) {
+      errors.push(`Minimum credits for ${taskType} must be a whole number of at least 1`);
+    }
+  }
+  if (config.effective_from !== undefined && Number.isNaN(Date.parse(config.effective_from))) {
+    errors.push('Effective date is not a valid date');
+  }
+
+  return errors;
+}
+
+/**
+ * Every version, newest first
+ */
+export async function listCreditPricingConfigs(
+  supabase: SupabaseClient = createAdminClient()
+): Promise<CreditPricingConfig[]> {
+  const { data, error } = await supabase
+    .from('credit_pricing_config')
+    .select('*')
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch credit pricing configs: ${error.message}`);
+  }
+
+  return (data || []).map(toCreditPricingConfig);
+}
+
+/**
+ * The active version
+ * Throws CreditPricingError if none is active; nothing should be priced then
+ */
+export async function getActiveCreditPricing(
+  supabase: SupabaseClient = createAdminClient()
+): Promise<CreditPricingConfig> {
+  const { data, error } = await supabase
+    .from('credit_pricing_config')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new CreditPricingError(`Failed to fetch the active credit pricing config: ${error.message}`);
+  }
+  if (!data) {
+    throw new CreditPricingError('No active credit pricing config');
+  }
+
+  return toCreditPricingConfig(data);
+}
+
+/**
+ * Save a new draft version
+ * It takes effect when activated, by hand or once its effective date passes
+ */
+export async function createCreditPricingConfig(
+  config: NewCreditPricingConfig,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<CreditPricingConfig> {
+  const errors = validateCreditPricingConfig(config);
+  if (errors.length > 0) {
+    throw new CreditPricingError(`Invalid credit pricing config: ${errors.join('; ')}`);
+  }
+
+  const { data, error } = await supabase
+    .from('credit_pricing_config')
+    .insert({
+      cost_per_credit_usd: config.cost_per_credit_usd,
+      task_type_multipliers: config.task_type_multipliers || {},
+      model_multipliers: config.model_multipliers || {},
+      min_credits: config.min_credits ?? 1,
+      task_type_min_credits: config.task_type_min_credits || {},
+      effective_from: config.effective_from || new Date().toISOString(),
+      note: config.note?.trim() || null,
+      is_active: false,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create credit pricing config: ${error.message}`);
+  }
+
+  return toCreditPricingConfig(data);
+}
+
+/**
+ * Make a draft the active version, retiring the current one
+ * Stored credit costs keep the old rate until recomputeCreditCosts runs
+ */
+export async function activateCreditPricingConfig(
+  version: number,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<void> {
+  const { error } = await supabase.rpc('activate_credit_pricing_config', { p_version: version });
+
+  if (error) {
+    throw new Error(`Failed to activate credit pricing version ${version}: ${error.message}`);
+  }
+}
+
+/**
+ * Activate the newest draft whose effective date has passed, if any
+ * Drafts dated before the active version's activation were superseded
+ * by it and stay drafts. Returns the activated version
+ */
+export async function activateDueCreditPricingConfig(
+  now: Date = new Date(),
+  supabase: SupabaseClient = createAdminClient()
+): Promise<CreditPricingConfig | null> {
+  const configs = await listCreditPricingConfigs(supabase);
+  const active = configs.find(config => config.is_active);
+  const after = active ? Date.parse(active.effective_from) : -Infinity;
+
+  const due = configs
+    .filter(config => {
+      const effective = Date.parse(config.effective_from);
+      return creditPricingStatus(config) === 'draft' && effective <= now.getTime() && effective > after;
+    })
+    .sort((a, b) => Date.parse(b.effective_from) - Date.parse(a.effective_from))[0];
+
+  if (!due) return null;
+
+  await activateCreditPricingConfig(due.version, supabase);
+  return due;
+}
@@ -0,0 +1,160 @@
+// ============================================================================
+// CREDIT COST RECOMPUTE
+// Re-derives model_pricing.credit_cost from stored prices and the active
+// credit pricing config, so a rate or margin change applies without a FAL sync
+// ============================================================================
+
+import { SupabaseModelRepository } from '../repositories/supabase-model-repository';
+import type { ModelRepository, StoredPricing } from '../repositories/model-repository';
+import { creditCost, CreditPricingError, type CreditPricingConfig } from './credit-pricing';
+import type { NewModelChange } from './model-history';
+
+const WRITE_CHUNK_SIZE = 500;
+
+export interface RecomputeOptions {
+  /** Report what would change without writing */
+  dryRun?: boolean;
+}
+
+export interface CreditCostChange {
+  modelId: string;
+  oldCredits: number | null;
+  newCredits: number;
+}
+
+export interface RecomputeResult {
+  version: number;
+  creditRate: number;
+  /** Models with a pricing row */
+  examined: number;
+  changes: CreditCostChange[];
+  /** Models without a known price; their credit cost stays null */
+  skipped: string[];
+  errors: Array<{ model: string; error: string }>;
+  dryRun: boolean;
+  duration: number;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Credit cost a stored price should have under the config, or null when
+ * the model has no known price
+ */
+export function expectedCreditCost(row: StoredPricing, config: CreditPricingConfig): number | null {
+  if (row.pricing_type === 'unknown' || row.price_per_call === null) return null;
+  return creditCost(row.price_per_call, config, { modelId: row.model_id, taskType: row.task_type });
+}
+
+/**
+ * Recompute every stored credit cost with the active credit pricing config
+ * Throws CreditPricingError if no config is active. Changed costs are
+ * written in chunks and recorded in model history
+ */
+export async function recomputeCreditCosts(
+  options: RecomputeOptions = {},
+  dependencies: { repository?: ModelRepository } = {}
+): Promise<RecomputeResult> {
+  const startTime = Date.now();
+  const startedAt = new Date(startTime).toISOString();
+  const repository = dependencies.repository || new SupabaseModelRepository();
+
+  const config = await repository.getActiveCreditPricing();
+  if (!config) {
+    throw new CreditPricingError('No active credit pricing config');
+  }
+  console.log(`💵 Credit pricing v${config.version}: $${config.cost_per_credit_usd.toFixed(4)} per credit`);
+
+  const rows = await repository.listStoredPricing();
+  const result: RecomputeResult = {
+    version: config.version,
+    creditRate: config.cost_per_credit_usd,
+    examined: rows.length,
+    changes: [],
+    skipped: [],
+    errors: [],
+    dryRun: !!options.dryRun,
+    duration: 0,
+  };
+
+  const changed: Array<{ row: StoredPricing; credits: number }> = [];
+  for (const row of rows) {
+    const credits = expectedCreditCost(row, config);
+    if (credits === null) {
+      result.skipped.push(row.model_id);
+    } else if (credits !== row.credit_cost) {
+      changed.push({ row, credits });
+    }
+  }
+  console.log(`🔁 ${changed.length} of ${rows.length} credit costs change`);
+
+  if (options.dryRun) {
+    result.changes = changed.map(({ row, credits }) => ({
+      modelId: row.model_id,
+      oldCredits: row.credit_cost,
+      newCredits: credits,
+    }));
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  const now = new Date().toISOString();
+  const write = (entries: typeof changed) =>
+    repository.updateCreditCosts(
+      entries.map(({ row, credits }) => ({ model_id: row.model_id, credit_cost: credits, last_updated: now }))
+    );
+
+  const written: typeof changed = [];
+  for (const entries of chunk(changed, WRITE_CHUNK_SIZE)) {
+    try {
+      await write(entries);
+      written.push(...entries);
+    } catch {
+      // Retry one model at a time so a bad row only fails itself
+      for (const entry of entries) {
+        try {
+          await write([entry]);
+          written.push(entry);
+        } catch (error) {
+          result.errors.push({ model: entry.row.model_id, error: errorMessage(error) });
+        }
+      }
+    }
+  }
+
+  result.changes = written.map(({ row, credits }) => ({
+    modelId: row.model_id,
+    oldCredits: row.credit_cost,
+    newCredits: credits,
+  }));
+
+  const history: NewModelChange[] = written.map(({ row, credits }) => ({
+    modelId: row.model_id,
+    changeType: 'updated',
+    changes: { pricing: { credit_cost: { old: row.credit_cost, new: credits } } },
+    oldPricing: { price_per_call: row.price_per_call, credit_cost: row.credit_cost },
+    newPricing: { price_per_call: row.price_per_call, credit_cost: credits },
+  }));
+  for (const records of chunk(history, WRITE_CHUNK_SIZE)) {
+    try {
+      await repository.recordChanges(records, startedAt);
+    } catch (error) {
+      console.error('❌ Failed to record model history:', errorMessage(error));
+      result.errors.push({ model: 'history', error: errorMessage(error) });
+    }
+  }
+
+  result.duration = Date.now() - startTime;
+  console.log(`✅ Updated ${result.changes.length} credit costs${result.errors.length ? `, ${result.errors.length} errors` : ''}`);
+  return result;
+}
@@ -3,164 +3,592 @@
 // Fetches models from FAL AI and syncs to database
 // ============================================================================
 
-import { createClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
 import { FalApiClient } from '../fal/api-client';
+import { FalAuthError } from '../fal/errors';
 import { parseSchemaToParameters } from '../fal/schema-parser';
+import { sanitizeValue } from '../fal/sanitize';
+import { extractModelEndpoint } from '../fal/openapi';
+import { createModelFilter } from '../fal/model-filter';
+import { priceRange } from '../fal/pricing';
+import { applyTaskOverride, classifyModel, type TaskOverride } from '../fal/task-classifier';
+import { creditCost, CreditPricingError, type CreditPricingConfig } from './credit-pricing';
+import {
+  diffFields,
+  diffParameters,
+  hasChanges,
+  ModelChanges,
+  NewModelChange,
+} from './model-history';
+import { toParameterRecords } from './model-parameters';
+import { buildSyncPlan, formatSyncPlan, planModel } from './sync-plan';
+import { SupabaseModelRepository } from '../repositories/supabase-model-repository';
+import type {
+  ModelRepository,
+  ModelSnapshot,
+  ModelSyncState,
+  SyncHashes,
+} from '../repositories/model-repository';
 import type {
   FalModel,
   FalPricingItem,
+  SyncOptions,
   SyncResult,
-  TaskType,
   PricingType,
 } from '../fal/types';
 
-function getSupabaseUrl(): string {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  if (!url) {
-    throw new Error('NEXT_PUBLIC_SUPABASE_URL is required in environment variables');
+const PROVIDER_ID = 'fal-ai';
+
+/**
+ * Get the active credit pricing config from the repository
+ * Throws CreditPricingError without one; credit costs can't be guessed
+ */
+async function getActiveCreditPricing(repository: ModelRepository): Promise<CreditPricingConfig> {
+  let config: CreditPricingConfig | null;
+  try {
+    config = await repository.getActiveCreditPricing();
+  } catch (error) {
+    throw new CreditPricingError('Failed to fetch the active credit pricing config', { cause: error });
   }
-  return url;
-}
 
-function getSupabaseServiceKey(): string {
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!key) {
-    throw new Error('SUPABASE_SERVICE_ROLE_KEY is required in environment variables');
+  if (!config) {
+    throw new CreditPricingError('No active credit pricing config');
   }
-  return key;
+  return config;
 }
 
 /**
- * Sanitize string by removing invalid Unicode characters
+ * Serialize a value with sorted object keys so equal content hashes equally
  */
-function sanitizeString(str: any): string | null {
-  if (str === null || str === undefined) return null;
-  if (typeof str !== 'string') return String(str);
-  // Remove unpaired surrogates (U+D800 to U+DFFF) that cause JSON errors
-  return str.replace(/[\uD800-\uDFFF]/g, '');
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashContent(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+function computeSyncHashes(
+  modelData: Record<string, unknown>,
+  parameterRecords: Record<string, unknown>[],
+  pricingData: Record<string, unknown>
+): SyncHashes {
+  const modelContent = { ...modelData, updated_at: undefined };
+  const pricingContent = { ...pricingData, last_updated: undefined };
+  return {
+    model: hashContent(modelContent),
+    parameters: hashContent(parameterRecords),
+    pricing: hashContent(pricingContent),
+  };
 }
 
 /**
- * Sanitize any value recursively
+ * Write collected history records without failing the sync
  */
-function sanitizeValue(value: any): any {
-  if (typeof value === 'string') {
-    return sanitizeString(value);
-  }
-  if (Array.isArray(value)) {
-    return value.map(item => sanitizeValue(item));
-  }
-  if (value !== null && typeof value === 'object') {
-    const sanitized: any = {};
-    for (const [key, val] of Object.entries(value)) {
-      sanitized[key] = sanitizeValue(val);
+async function flushHistory(
+  repository: ModelRepository,
+  history: NewModelChange[],
+  syncStartedAt: string,
+  result: SyncResult
+): Promise<void> {
+  for (const records of chunk(history, 500)) {
+    try {
+      await repository.recordChanges(records, syncStartedAt);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to record model history:', errorMsg);
+      result.errors.push({ model: 'history', error: errorMsg });
     }
-    return sanitized;
   }
-  return value;
 }
 
 /**
- * Extract input schema from OpenAPI specification
+ * Split an array into chunks
  */
-function extractInputSchemaFromOpenAPI(openapi: any): any | null {
-  try {
-    if (!openapi || !openapi.paths) return null;
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
 
-    // Find the POST endpoint (usually the main inference endpoint)
-    const paths = Object.values(openapi.paths);
-    const postPath = paths.find((path: any) => path.post);
+/**
+ * Known models that are no longer in the FAL catalog
+ * blocked is set when the removal guard refuses to deactivate them
+ */
+function findRemovedModels(
+  existing: Map<string, ModelSyncState>,
+  seenIds: Set<string>,
+  maxRemovalRatio: number
+): { missing: string[]; blocked: string | null } {
+  const missing = Array.from(existing.entries())
+    .filter(([id, info]) => !seenIds.has(id) && !info.removedAt)
+    .map(([id]) => id);
+
+  const ratio = missing.length / existing.size;
+  if (missing.length > 0 && ratio > maxRemovalRatio) {
+    const blocked = `Refusing to deactivate ${missing.length} of ${existing.size} models ` +
+      `(${(ratio * 100).toFixed(1)}% > ${(maxRemovalRatio * 100).toFixed(1)}% limit); catalog fetch may be incomplete`;
+    return { missing, blocked };
+  }
 
-    if (!postPath || !postPath.post) return null;
+  return { missing, blocked: null };
+}
 
-    // Get request body schema
-    const requestBody = postPath.post.requestBody;
-    if (!requestBody || !requestBody.content) return null;
+/**
+ * Mark models that are no longer in the FAL catalog inactive
+ * Only called after a complete catalog fetch
+ */
+async function deactivateRemovedModels(
+  repository: ModelRepository,
+  existing: Map<string, ModelSyncState>,
+  seenIds: Set<string>,
+  maxRemovalRatio: number,
+  result: SyncResult,
+  history: NewModelChange[]
+): Promise<void> {
+  const { missing, blocked } = findRemovedModels(existing, seenIds, maxRemovalRatio);
+
+  if (missing.length === 0) {
+    console.log('✅ No removed models\n');
+    return;
+  }
 
-    // Get JSON schema from application/json content
-    const jsonContent = requestBody.content['application/json'];
-    if (!jsonContent || !jsonContent.schema) return null;
+  if (blocked) {
+    console.warn(`⚠️ ${blocked}\n`);
+    result.errors.push({ model: 'catalog', error: blocked });
+    return;
+  }
 
-    let schema = jsonContent.schema;
+  const removedAt = new Date().toISOString();
 
-    // Resolve $ref if it references components/schemas
-    if (schema.$ref && openapi.components?.schemas) {
-      const refName = schema.$ref.split('/').pop();
-      schema = openapi.components.schemas[refName] || schema;
+  for (const ids of chunk(missing, 100)) {
+    try {
+      await repository.deactivateModels(ids, removedAt);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`  ❌ Failed to deactivate ${ids.length} models:`, errorMsg);
+      ids.forEach(id => result.errors.push({ model: id, error: `Deactivation failed: ${errorMsg}` }));
+      continue;
     }
 
-    return schema;
+    result.modelsRemoved += ids.length;
+    ids.forEach(id => {
+      console.log(`  🗄️  Deactivated removed model: ${id}`);
+      history.push({
+        modelId: id,
+        changeType: 'removed',
+        changes: { model: { removed_at: { old: null, new: removedAt } } },
+      });
+    });
+  }
+
+  console.log('');
+}
+
+function purgeCutoff(purgeAfterDays: number): string {
+  return new Date(Date.now() - purgeAfterDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Models removed before the cutoff, or null if the lookup failed
+ */
+async function findModelsToPurge(
+  repository: ModelRepository,
+  cutoff: string,
+  result: SyncResult
+): Promise<string[] | null> {
+  try {
+    return await repository.listRemovedBefore(PROVIDER_ID, cutoff);
   } catch (error) {
-    console.warn('⚠️ Failed to extract schema from OpenAPI:', error);
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('❌ Failed to load models to purge:', errorMsg);
+    result.errors.push({ model: 'catalog', error: `Purge lookup failed: ${errorMsg}` });
     return null;
   }
 }
 
 /**
- * Detect task type from model ID
+ * Delete models removed longer than the grace period
+ * Models still referenced (e.g. by generations) are kept and reported
  */
-function detectTaskType(modelId: string): TaskType {
-  const lower = modelId.toLowerCase();
-
-  if (lower.includes('video')) return 'VIDEO';
-  if (lower.includes('audio') || lower.includes('sound') || lower.includes('music') || lower.includes('speech')) return 'AUDIO';
-  if (lower.includes('text') || lower.includes('caption') || lower.includes('llm')) return 'TEXT';
-  if (lower.includes('image') || lower.includes('flux') || lower.includes('stable')) return 'IMAGE';
+async function purgeRemovedModels(
+  repository: ModelRepository,
+  purgeAfterDays: number,
+  result: SyncResult
+): Promise<void> {
+  const cutoff = purgeCutoff(purgeAfterDays);
+  const ids = await findModelsToPurge(repository, cutoff, result);
+
+  for (const id of ids || []) {
+    try {
+      await repository.deleteModel(id);
+
+      result.modelsPurged++;
+      console.log(`  🗑️  Purged model removed before ${cutoff}: ${id}`);
+    } catch (purgeError) {
+      const errorMsg = purgeError instanceof Error ? purgeError.message : 'Unknown error';
+      console.warn(`  ⚠️ Could not purge ${id}: ${errorMsg}`);
+      result.errors.push({ model: id, error: `Purge failed: ${errorMsg}` });
+    }
+  }
+}
 
-  return 'MULTIMODAL';
+/**
+ * Everything the sync intends to write for one model
+ */
+interface StagedModel {
+  id: string;
+  isNew: boolean;
+  reactivated: boolean;
+  modelData: Record<string, unknown>;
+  parameterRecords: Record<string, unknown>[];
+  pricingData: Record<string, unknown>;
+  hashes: SyncHashes;
+  modelChanged: boolean;
+  parametersChanged: boolean;
+  pricingChanged: boolean;
 }
 
+const MODEL_CHUNK_SIZE = 200;
+const PARAMETER_SET_CHUNK_SIZE = 50;
+const PRICING_CHUNK_SIZE = 500;
+const HASH_CHUNK_SIZE = 500;
+
 /**
- * Get active credit rate from database
+ * Run a write, returning its error message instead of throwing
  */
-async function getActiveCreditRate(supabase: any): Promise<number> {
+async function attempt(write: () => Promise<void>): Promise<string | null> {
   try {
-    const { data, error } = await supabase
-      .from('credit_pricing_config')
-      .select('cost_per_credit_usd')
-      .eq('is_active', true)
-      .single();
-
-    if (error || !data) {
-      console.warn('⚠️ No active credit config found, using default rate: $0.025');
-      return 0.025;
+    await write();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+/**
+ * Write rows in chunks, isolating failures
+ * When a chunk fails, its rows are retried one model at a time so a single
+ * bad row only fails its own model. Returns the ids of models that failed.
+ */
+async function writeInChunks<T>(
+  label: string,
+  rows: T[],
+  chunkSize: number,
+  modelIdOf: (row: T) => string,
+  write: (rows: T[]) => Promise<void>,
+  result: SyncResult
+): Promise<Set<string>> {
+  const failed = new Set<string>();
+  const chunks = chunk(rows, chunkSize);
+
+  for (let i = 0; i < chunks.length; i++) {
+    const rowsInChunk = chunks[i];
+    const error = await attempt(() => write(rowsInChunk));
+
+    if (!error) {
+      console.log(`  ✅ ${label}: chunk ${i + 1}/${chunks.length} (${rowsInChunk.length} rows)`);
+      continue;
     }
 
-    return data.cost_per_credit_usd;
-  } catch (error) {
-    console.warn('⚠️ Failed to fetch credit rate, using default: $0.025');
-    return 0.025;
+    console.warn(`  ⚠️ ${label}: chunk ${i + 1}/${chunks.length} failed (${error}), retrying per model...`);
+
+    const byModel = new Map<string, T[]>();
+    for (const row of rowsInChunk) {
+      const id = modelIdOf(row);
+      if (!byModel.has(id)) byModel.set(id, []);
+      byModel.get(id)!.push(row);
+    }
+
+    for (const [id, modelRows] of byModel) {
+      const rowError = await attempt(() => write(modelRows));
+      if (rowError) {
+        console.error(`  ❌ ${label} failed for ${id}: ${rowError}`);
+        failed.add(id);
+        result.errors.push({ model: id, error: `${label}: ${rowError}` });
+      }
+    }
+  }
+
+  return failed;
+}
+
+/**
+ * Build the rows the sync would write for one FAL model
+ * A model without a price gets pricing_type 'unknown' and no credit cost
+ * instead of passing as free. When the pricing fetch failed
+ * (pricingAvailable false) stored pricing is left alone. An admin task
+ * override replaces the classifier's task type and tags
+ */
+function stageModel(
+  model: FalModel,
+  pricing: FalPricingItem | undefined,
+  pricingAvailable: boolean,
+  creditPricing: CreditPricingConfig,
+  existing: ModelSyncState | undefined,
+  taskOverride: TaskOverride | undefined,
+  options: SyncOptions
+): StagedModel {
+  const fullModelId = model.endpoint_id;
+
+  // Extract input and output schemas from OpenAPI spec
+  const endpoint = model.openapi
+    ? extractModelEndpoint(model.openapi, model.endpoint_id)
+    : null;
+  const inputSchema = endpoint?.inputSchema ?? null;
+
+  // Classify from category and schemas, then apply any admin override
+  const task = applyTaskOverride(
+    classifyModel({
+      endpointId: model.endpoint_id,
+      category: model.metadata.category,
+      inputSchema,
+      outputSchema: endpoint?.outputSchema,
+    }),
+    taskOverride
+  );
+
+  // Parse schema to parameters (if schema exists)
+  const parameters = inputSchema ? parseSchemaToParameters(inputSchema) : [];
+  const parameterRecords = toParameterRecords(fullModelId, parameters);
+
+  const keepPricing = !pricingAvailable && !!existing;
+  const pricingUnknown = !pricing && !keepPricing;
+
+  // Price a request at the parameter defaults; the range covers the rest
+  const unitPrice = pricing?.unit_price ?? 0;
+  const range = priceRange(unitPrice, pricing?.unit, parameters);
+  // Without a quantity at the defaults, store the dearest request if it is
+  // bounded, else no price; quotes then come from the engine or FAL's estimate
+  const pricePerCall = pricingUnknown ? null : range.typical ?? range.max;
+  const pricingType: PricingType = pricingUnknown ? 'unknown' : range.pricingType;
+
+  const credits = pricePerCall === null
+    ? null
+    : creditCost(pricePerCall, creditPricing, { modelId: fullModelId, taskType: task.taskType });
+
+  const modelData = sanitizeValue({
+    id: fullModelId,
+    provider_id: PROVIDER_ID,
+    name: model.endpoint_id.replace('fal-ai/', ''),
+    display_name: model.metadata.display_name || model.endpoint_id.split('/').pop() || model.endpoint_id,
+    description: model.metadata.description,
+    task_type: task.taskType,
+    task_tags: task.tags,
+    category: model.metadata.category,
+    input_schema: inputSchema || {},
+    output_schema: endpoint?.outputSchema || {},
+    is_active: model.metadata.status === 'active',
+    removed_at: null,
+    updated_at: new Date().toISOString(),
+  });
+
+  const pricingData = sanitizeValue({
+    model_id: fullModelId,
+    price_per_call: pricePerCall,
+    min_price: pricingUnknown ? null : range.min,
+    max_price: pricingUnknown ? null : range.max,
+    pricing_type: pricingType,
+    credit_cost: credits,
+    pricing_details: pricing
+      ? { unit_price: pricing.unit_price, unit: pricing.unit, currency: pricing.currency }
+      : {},
+    last_updated: new Date().toISOString(),
+  });
+
+  // Compare with the previous sync
+  const hashes = computeSyncHashes(modelData, parameterRecords, pricingData);
+  const previous = existing?.hashes || null;
+  if (keepPricing) {
+    // Unmatched, so the next sync with prices writes the row
+    hashes.pricing = previous?.pricing ?? '';
   }
+  // A model that reappears after removal must be reactivated
+  const force = !!options.full || !previous || !!existing?.removedAt;
+
+  return {
+    id: fullModelId,
+    isNew: !existing,
+    reactivated: !!existing?.removedAt,
+    modelData,
+    parameterRecords,
+    pricingData,
+    hashes,
+    modelChanged: force || previous!.model !== hashes.model,
+    parametersChanged: force || previous!.parameters !== hashes.parameters,
+    pricingChanged: !keepPricing && (force || previous!.pricing !== hashes.pricing),
+  };
 }
 
 /**
- * Calculate credit cost from USD price
- * Uses dynamic rate from admin configuration
+ * Structured diff between a model's snapshot and its staged rows
  */
-function calculateCreditCost(priceUSD: number, creditRate: number): number {
-  return Math.max(1, Math.ceil(priceUSD / creditRate));
+function buildModelChange(staged: StagedModel, snapshot: ModelSnapshot | undefined): NewModelChange | null {
+  const changes: ModelChanges = {};
+
+  if (staged.modelChanged) {
+    const modelDiff = diffFields(snapshot?.model, staged.modelData);
+    if (Object.keys(modelDiff).length > 0) changes.model = modelDiff;
+    if (snapshot && JSON.stringify(snapshot.model?.input_schema ?? {}) !== JSON.stringify(staged.modelData.input_schema)) {
+      changes.inputSchemaChanged = true;
+    }
+    if (snapshot && JSON.stringify(snapshot.model?.output_schema ?? {}) !== JSON.stringify(staged.modelData.output_schema)) {
+      changes.outputSchemaChanged = true;
+    }
+  }
+  if (staged.parametersChanged) {
+    changes.parameters = diffParameters(snapshot?.parameters || [], staged.parameterRecords);
+  }
+  if (staged.pricingChanged) {
+    const pricingDiff = diffFields(snapshot?.pricing, staged.pricingData);
+    if (Object.keys(pricingDiff).length > 0) changes.pricing = pricingDiff;
+  }
+
+  const changeType = staged.isNew ? 'added' : staged.reactivated ? 'reactivated' : 'updated';
+  if (changeType === 'updated' && !hasChanges(changes)) {
+    return null;
+  }
+
+  return {
+    modelId: staged.id,
+    changeType,
+    changes,
+    oldPricing: snapshot?.pricing,
+    newPricing: staged.pricingData,
+  };
+}
+
+/**
+ * Build the dry-run plan from staged rows, reading but never writing
+ */
+async function planSync(
+  repository: ModelRepository,
+  options: SyncOptions,
+  state: {
+    creditRate: number;
+    models: FalModel[];
+    staged: StagedModel[];
+    snapshots: Map<string, ModelSnapshot>;
+    existingModels: Map<string, ModelSyncState>;
+    result: SyncResult;
+    startTime: number;
+  }
+): Promise<SyncResult> {
+  const { result } = state;
+
+  const plannedModels = state.staged.map(entry => {
+    const snapshot = state.snapshots.get(entry.id);
+    const change = buildModelChange(entry, snapshot);
+    return planModel({
+      modelId: entry.id,
+      isNew: entry.isNew,
+      reactivated: entry.reactivated,
+      modelChanged: entry.modelChanged,
+      parametersChanged: entry.parametersChanged,
+      pricingChanged: entry.pricingChanged,
+      changes: change?.changes || {},
+      oldParameterCount: snapshot?.parameters.length || 0,
+      newParameterCount: entry.parameterRecords.length,
+      oldPricing: snapshot?.pricing || null,
+      newPricing: entry.pricingData,
+    });
+  });
+
+  let deactivate: string[] = [];
+  let deactivateBlocked: string | null = null;
+  if (!options.modelFilter && (options.deactivateRemoved ?? true)) {
+    const seenIds = new Set(state.models.map(m => m?.endpoint_id).filter(Boolean));
+    const removed = findRemovedModels(state.existingModels, seenIds, options.maxRemovalRatio ?? 0.2);
+    deactivateBlocked = removed.blocked;
+    deactivate = removed.blocked ? [] : removed.missing;
+  }
+
+  const purge = options.purgeRemovedAfterDays !== undefined
+    ? (await findModelsToPurge(repository, purgeCutoff(options.purgeRemovedAfterDays), result)) || []
+    : [];
+
+  const plan = buildSyncPlan({
+    creditRate: state.creditRate,
+    models: plannedModels,
+    modelsUnchanged: result.modelsUnchanged,
+    deactivate,
+    deactivateBlocked,
+    purge,
+  });
+
+  // Counters describe what a real run would do
+  for (const entry of state.staged) {
+    if (entry.isNew) result.modelsAdded++;
+    else result.modelsUpdated++;
+    result.modelsChanged++;
+    if (entry.parametersChanged) result.parametersAdded += entry.parameterRecords.length;
+    if (entry.pricingChanged) result.pricingUpdated++;
+  }
+  result.modelsRemoved = deactivate.length;
+  result.modelsPurged = purge.length;
+  if (deactivateBlocked) {
+    result.errors.push({ model: 'catalog', error: deactivateBlocked });
+  }
+  result.plan = plan;
+  result.duration = Date.now() - state.startTime;
+
+  console.log('\n🧪 Dry run: no changes written\n');
+  console.log(formatSyncPlan(plan));
+  console.log('');
+
+  return result;
+}
+
+export interface SyncDependencies {
+  /** Storage for models, parameters, pricing and credit config (default Supabase) */
+  repository?: ModelRepository;
+  falClient?: FalApiClient;
 }
 
 /**
  * Sync FAL AI models to database
+ * Models whose content hashes match the stored ones are skipped unless
+ * options.full is set. Changed rows are staged in memory and written with
+ * chunked bulk upserts. With options.dryRun nothing is written and the
+ * result carries the plan instead.
  */
-export async function syncFalModels(): Promise<SyncResult> {
+export async function syncFalModels(
+  options: SyncOptions = {},
+  dependencies: SyncDependencies = {}
+): Promise<SyncResult> {
   const startTime = Date.now();
+  const syncStartedAt = new Date(startTime).toISOString();
+  const history: NewModelChange[] = [];
   const result: SyncResult = {
     modelsAdded: 0,
     modelsUpdated: 0,
+    modelsUnchanged: 0,
+    modelsChanged: 0,
+    modelsRemoved: 0,
+    modelsPurged: 0,
     parametersAdded: 0,
     pricingUpdated: 0,
+    unknownPricing: [],
     errors: [],
     duration: 0,
   };
 
-  console.log('🚀 Starting FAL AI model sync...\n');
+  console.log(`🚀 Starting FAL AI model sync (${options.full ? 'full' : 'incremental'}${options.dryRun ? ', dry run' : ''})...\n`);
 
   try {
     // Initialize clients
-    const falClient = new FalApiClient();
-    const supabase = createClient(getSupabaseUrl(), getSupabaseServiceKey());
+    const falClient = dependencies.falClient || new FalApiClient();
+    const repository = dependencies.repository || new SupabaseModelRepository();
 
     // Test FAL connection
     console.log('🔌 Testing FAL API connection...');
@@ -170,19 +598,30 @@ export async function syncFalModels(): Promise<SyncResult> {
     }
     console.log('✅ FAL API connection successful\n');
 
-    // Get active credit rate
+    // Get active credit pricing
     console.log('💵 Fetching credit pricing configuration...');
-    const creditRate = await getActiveCreditRate(supabase);
-    console.log(`✅ Credit rate: $${creditRate.toFixed(4)} per credit\n`);
+    const creditPricing = await getActiveCreditPricing(repository);
+    const creditRate = creditPricing.cost_per_credit_usd;
+    console.log(`✅ Credit pricing v${creditPricing.version}: $${creditRate.toFixed(4)} per credit\n`);
 
     // Fetch models
     console.log('📦 Fetching FAL AI models...');
-    const models = await falClient.fetchModels();
-    console.log(`✅ Fetched ${models.length} models\n`);
+    const catalog = await falClient.fetchModels();
+    console.log(`✅ Fetched ${catalog.length} models\n`);
+
+    const matchesFilter = createModelFilter(options.modelFilter);
+    const models = options.modelFilter
+      ? catalog.filter(m => m?.endpoint_id && matchesFilter(m.endpoint_id))
+      : catalog;
+    if (options.modelFilter) {
+      console.log(`🔍 Filter "${options.modelFilter}" matched ${models.length} models\n`);
+    }
 
     // Fetch pricing for all models
     console.log('💰 Fetching model pricing...');
     const pricingMap = new Map<string, FalPricingItem>();
+    const unknownPricing = new Set<string>();
+    let pricingAvailable = true;
 
     try {
       const endpointIds = models.map(m => m.endpoint_id);
@@ -191,6 +630,7 @@ export async function syncFalModels(): Promise<SyncResult> {
       for (const pricing of pricingResponse.prices) {
         pricingMap.set(pricing.endpoint_id, pricing);
       }
+      pricingResponse.unknownEndpointIds.forEach(id => unknownPricing.add(id));
       console.log(`✅ Fetched pricing for ${pricingMap.size} models (out of ${models.length} total)\n`);
 
       // Debug: Show sample pricing data
@@ -200,20 +640,43 @@ export async function syncFalModels(): Promise<SyncResult> {
         console.log(`   ${id}: $${price.unit_price} per ${price.unit}`);
       });
 
-      // Show models without pricing
-      const missingPricing = models.length - pricingMap.size;
+      if (unknownPricing.size > 0) {
+        console.log(`\n⚠️  ${unknownPricing.size} models are unknown to the FAL pricing API`);
+        console.log(`   These will be stored without a price and can't be run until priced`);
+      }
+
+      // Show models the response left out
+      const missingPricing = models.filter(
+        m => !pricingMap.has(m.endpoint_id) && !unknownPricing.has(m.endpoint_id)
+      ).length;
       if (missingPricing > 0) {
-        console.log(`\n⚠️  ${missingPricing} models don't have pricing data from FAL API`);
-        console.log(`   These will be set to 1 credit (minimum cost)`);
+        console.log(`\n⚠️  ${missingPricing} models are missing from the FAL pricing response`);
+        console.log(`   These will be stored without a price and can't be run until priced`);
       }
       console.log('');
     } catch (error) {
-      console.warn('⚠️ Pricing endpoint failed, all models will have minimum 1 credit cost');
-      console.warn(`   Error: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+      // A bad key would fail every request; stop instead
+      if (error instanceof FalAuthError) throw error;
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      pricingAvailable = false;
+      console.warn('⚠️ Pricing endpoint failed; stored pricing is kept and new models are stored without a price');
+      console.warn(`   Error: ${errorMsg}\n`);
+      result.errors.push({ model: 'pricing', error: `Pricing fetch failed: ${errorMsg}` });
+    }
+
+    // Load sync state from the previous run
+    console.log('🔎 Loading existing models...');
+    const existingModels = await repository.listSyncStates(PROVIDER_ID);
+    console.log(`✅ Found ${existingModels.size} existing models\n`);
+
+    const taskOverrides = await repository.listTaskOverrides();
+    if (taskOverrides.size > 0) {
+      console.log(`🏷️  ${taskOverrides.size} task overrides\n`);
     }
 
-    // Process each model
+    // Stage rows for every changed model
     console.log('⚙️  Processing models...\n');
+    const staged: StagedModel[] = [];
 
     for (const model of models) {
       try {
@@ -227,139 +690,26 @@ export async function syncFalModels(): Promise<SyncResult> {
           continue;
         }
 
-        const fullModelId = model.endpoint_id;
-        console.log(`📌 Processing: ${fullModelId}`);
-
-        // Detect task type from category or endpoint_id
-        const taskType = detectTaskType(model.metadata.category || model.endpoint_id);
-
-        // Get pricing
-        const pricing = pricingMap.get(fullModelId);
-        const pricePerCall = pricing?.unit_price || 0;
-        const pricingType: PricingType = pricePerCall === 0 ? 'free' : 'fixed';
-
-        // Debug first few models
-        if (result.modelsAdded + result.modelsUpdated < 5 && pricing) {
-          console.log(`  🔍 Found pricing: $${pricing.unit_price} per ${pricing.unit}`);
-        }
-
-        // Calculate credit cost using dynamic rate
-        const creditCost = calculateCreditCost(pricePerCall, creditRate);
-
-        // Upsert model
-        const { data: existingModel, error: checkError } = await supabase
-          .from('models')
-          .select('id')
-          .eq('id', fullModelId)
-          .single();
-
-        // Extract input schema from OpenAPI spec
-        const inputSchema = model.openapi
-          ? extractInputSchemaFromOpenAPI(model.openapi)
-          : null;
-
-        const modelData = sanitizeValue({
-          id: fullModelId,
-          provider_id: 'fal-ai',
-          name: model.endpoint_id.replace('fal-ai/', ''),
-          display_name: model.metadata.display_name || model.endpoint_id.split('/').pop() || model.endpoint_id,
-          description: model.metadata.description,
-          task_type: taskType,
-          category: model.metadata.category,
-          input_schema: inputSchema || {},
-          is_active: model.metadata.status === 'active',
-          updated_at: new Date().toISOString(),
-        });
-
-        if (existingModel) {
-          const { error: updateError } = await supabase
-            .from('models')
-            .update(modelData)
-            .eq('id', fullModelId);
-
-          if (updateError) throw updateError;
-          result.modelsUpdated++;
-          console.log(`  ✏️  Updated model`);
-        } else {
-          const { error: insertError } = await supabase
-            .from('models')
-            .insert({ ...modelData, created_at: new Date().toISOString() });
-
-          if (insertError) throw insertError;
-          result.modelsAdded++;
-          console.log(`  ✨ Added new model`);
-        }
-
-        // Parse schema to parameters (if schema exists)
-        const parameters = inputSchema ? parseSchemaToParameters(inputSchema) : [];
-        console.log(`  📋 Parsed ${parameters.length} parameters`);
-
-        // Delete old parameters
-        await supabase
-          .from('model_parameters')
-          .delete()
-          .eq('model_id', fullModelId);
-
-        // Insert new parameters with sanitization
-        if (parameters.length > 0) {
-          const parameterRecords = parameters.map(param => sanitizeValue({
-            model_id: fullModelId,
-            parameter_name: param.name,
-            parameter_type: param.type,
-            is_required: param.required,
-            default_value: param.defaultValue ? String(param.defaultValue) : null,
-            min_value: param.minValue,
-            max_value: param.maxValue,
-            allowed_values: param.allowedValues,
-            ui_label: param.uiLabel,
-            ui_placeholder: param.uiPlaceholder,
-            ui_help_text: param.uiHelpText,
-            ui_order: param.uiOrder,
-            ui_group: param.uiGroup,
-          }));
-
-          const { error: paramsError } = await supabase
-            .from('model_parameters')
-            .insert(parameterRecords);
-
-          if (paramsError) throw paramsError;
-          result.parametersAdded += parameters.length;
-          console.log(`  ✅ Inserted ${parameters.length} parameters`);
-        }
-
-        // Upsert pricing with sanitization
-        const pricingData = sanitizeValue({
-          model_id: fullModelId,
-          price_per_call: pricePerCall,
-          min_price: null,
-          max_price: null,
-          pricing_type: pricingType,
-          credit_cost: creditCost,
-          pricing_details: pricing ? { unit: pricing.unit, currency: pricing.currency } : {},
-          last_updated: new Date().toISOString(),
-        });
-
-        const { data: existingPricing } = await supabase
-          .from('model_pricing')
-          .select('id')
-          .eq('model_id', fullModelId)
-          .single();
-
-        if (existingPricing) {
-          await supabase
-            .from('model_pricing')
-            .update(pricingData)
-            .eq('model_id', fullModelId);
-        } else {
-          await supabase
-            .from('model_pricing')
-            .insert({ ...pricingData, created_at: new Date().toISOString() });
+        const pricing = pricingMap.get(model.endpoint_id);
+        if (pricingAvailable && !pricing) result.unknownPricing.push(model.endpoint_id);
+
+        const entry = stageModel(
+          model,
+          pricing,
+          pricingAvailable,
+          creditPricing,
+          existingModels.get(model.endpoint_id),
+          taskOverrides.get(model.endpoint_id),
+          options
+        );
+
+        if (!entry.isNew && !entry.modelChanged && !entry.parametersChanged && !entry.pricingChanged) {
+          result.modelsUnchanged++;
+          continue;
         }
 
-        result.pricingUpdated++;
-        console.log(`  💵 Price: $${pricePerCall.toFixed(4)} = ${creditCost} credits`);
-        console.log('');
-
+        console.log(`📌 ${entry.isNew ? 'New' : 'Changed'}: ${entry.id}`);
+        staged.push(entry);
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         const modelId = model?.endpoint_id || 'unknown';
@@ -371,14 +721,152 @@ export async function syncFalModels(): Promise<SyncResult> {
       }
     }
 
+    console.log(`\n✅ ${staged.length} models to write, ${result.modelsUnchanged} unchanged\n`);
+
+    // Snapshot current rows so changes can be recorded
+    const snapshots = await repository.loadSnapshots(
+      staged.filter(entry => !entry.isNew).map(entry => entry.id)
+    );
+
+    if (options.dryRun) {
+      return await planSync(repository, options, {
+        creditRate,
+        models,
+        staged,
+        snapshots,
+        existingModels,
+        result,
+        startTime,
+      });
+    }
+
+    const failed = new Set<string>();
+    const markFailed = (ids: Set<string>) => ids.forEach(id => failed.add(id));
+    const pending = (filter: (entry: StagedModel) => boolean) =>
+      staged.filter(entry => !failed.has(entry.id) && filter(entry));
+
+    // Write models
+    console.log('💾 Writing models...');
+    const now = new Date().toISOString();
+    markFailed(await writeInChunks<Record<string, unknown>>(
+      'Insert models',
+      pending(entry => entry.isNew).map(entry => ({ ...entry.modelData, created_at: now })),
+      MODEL_CHUNK_SIZE,
+      row => String(row.id),
+      rows => repository.insertModels(rows),
+      result
+    ));
+    markFailed(await writeInChunks<Record<string, unknown>>(
+      'Update models',
+      pending(entry => !entry.isNew && entry.modelChanged).map(entry => entry.modelData),
+      MODEL_CHUNK_SIZE,
+      row => String(row.id),
+      rows => repository.updateModels(rows),
+      result
+    ));
+
+    // Replace parameters (atomically per model)
+    console.log('📋 Writing parameters...');
+    const parameterModels = pending(entry => entry.parametersChanged);
+    const parameterBatches = chunk(parameterModels, PARAMETER_SET_CHUNK_SIZE);
+    for (let i = 0; i < parameterBatches.length; i++) {
+      const replaced = await repository.replaceParameters(
+        parameterBatches[i].map(entry => ({ modelId: entry.id, parameters: entry.parameterRecords }))
+      );
+
+      for (const { modelId, error } of replaced.failed) {
+        console.error(`  ❌ Replace parameters failed for ${modelId}: ${error}`);
+        failed.add(modelId);
+        result.errors.push({ model: modelId, error: `Replace parameters: ${error}` });
+      }
+      console.log(`  ✅ Replace parameters: batch ${i + 1}/${parameterBatches.length} (${replaced.replaced.length} models)`);
+    }
+
+    // Upsert pricing
+    console.log('💵 Writing pricing...');
+    markFailed(await writeInChunks<Record<string, unknown>>(
+      'Upsert pricing',
+      pending(entry => entry.pricingChanged).map(entry => ({
+        ...entry.pricingData,
+        ...(entry.isNew ? { created_at: now } : {}),
+      })),
+      PRICING_CHUNK_SIZE,
+      row => String(row.model_id),
+      rows => repository.upsertPricing(rows),
+      result
+    ));
+
+    // Store hashes last so a partially failed model is retried next run
+    console.log('🔐 Writing sync hashes...');
+    markFailed(await writeInChunks(
+      'Store hashes',
+      pending(() => true).map(entry => ({
+        id: entry.id,
+        content_hash: hashContent(entry.hashes),
+        sync_hashes: entry.hashes,
+      })),
+      HASH_CHUNK_SIZE,
+      row => row.id,
+      rows => repository.setSyncHashes(rows),
+      result
+    ));
+    console.log('');
+
+    for (const entry of pending(() => true)) {
+      if (entry.isNew) {
+        result.modelsAdded++;
+      } else {
+        result.modelsUpdated++;
+      }
+      result.modelsChanged++;
+      if (entry.parametersChanged) result.parametersAdded += entry.parameterRecords.length;
+      if (entry.pricingChanged) result.pricingUpdated++;
+
+      const change = buildModelChange(entry, snapshots.get(entry.id));
+      if (change) history.push(change);
+    }
+
+    // Reconcile models that disappeared from the catalog
+    // fetchModels throws on any failed page, so reaching here means the
+    // catalog is complete; the ratio guard covers a truncated response
+    if (options.modelFilter) {
+      console.log('⏭️  Skipping removal check for filtered sync\n');
+    } else if (options.deactivateRemoved ?? true) {
+      console.log('🧹 Checking for models removed from FAL...');
+      const seenIds = new Set(models.map(m => m?.endpoint_id).filter(Boolean));
+      await deactivateRemovedModels(
+        repository,
+        existingModels,
+        seenIds,
+        options.maxRemovalRatio ?? 0.2,
+        result,
+        history
+      );
+    }
+
+    if (options.purgeRemovedAfterDays !== undefined) {
+      console.log(`🗑️  Purging models removed more than ${options.purgeRemovedAfterDays} days ago...`);
+      await purgeRemovedModels(repository, options.purgeRemovedAfterDays, result);
+      console.log('');
+    }
+
+    console.log(`📝 Recording ${history.length} model changes...`);
+    await flushHistory(repository, history, syncStartedAt, result);
+    console.log('');
+
     result.duration = Date.now() - startTime;
 
     console.log('\n✅ Sync complete!\n');
     console.log('📊 Summary:');
     console.log(`  Models Added: ${result.modelsAdded}`);
     console.log(`  Models Updated: ${result.modelsUpdated}`);
+    console.log(`  Models Unchanged: ${result.modelsUnchanged}`);
+    console.log(`  Models Changed: ${result.modelsChanged}`);
+    console.log(`  Models Removed: ${result.modelsRemoved}`);
+    console.log(`  Models Purged: ${result.modelsPurged}`);
     console.log(`  Parameters Added: ${result.parametersAdded}`);
     console.log(`  Pricing Records: ${result.pricingUpdated}`);
+    console.log(`  Unknown Pricing: ${result.unknownPricing.length}`);
     console.log(`  Errors: ${result.errors.length}`);
     console.log(`  Duration: ${(result.duration / 1000).toFixed(2)}s\n`);
 
@@ -396,20 +884,3 @@ export async function syncFalModels(): Promise<SyncResult> {
     throw error;
   }
 }
-
-/**
- * Estimate generation cost
- */
-export async function estimateGenerationCost(
-  modelId: string,
-  params: any
-): Promise<number> {
-  try {
-    const falClient = new FalApiClient();
-    const cost = await falClient.estimateCost(modelId, 1);
-    return cost;
-  } catch (error) {
-    console.error('Failed to estimate cost:', error);
-    return 0;
-  }
-}
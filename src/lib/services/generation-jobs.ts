@@ -0,0 +1,378 @@
+// ============================================================================
+// GENERATION JOB SERVICE
+// Creates generation jobs, runs them through the FAL queue and tracks state
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+import { FalApiClient } from '../fal/api-client';
+import { CreditLedgerService } from './credit-ledger';
+import { validateGenerationInput } from './parameter-validation';
+import { quoteGenerationCost } from './cost-estimation';
+import { getAvailableModel, getModelCuration } from './model-curation';
+import { normalizeFalOutput, type MediaItem } from '../fal/media-output';
+import type { FalQueueOptions } from '../fal/types';
+
+export type GenerationStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Generation {
+  id: string;
+  user_id: string;
+  model_id: string;
+  status: GenerationStatus;
+  input: Record<string, unknown>;
+  fal_request_id: string | null;
+  output: unknown;
+  output_urls: string[];
+  /** Media files in the output, the same shape for every model */
+  output_media: MediaItem[];
+  error: string | null;
+  credit_cost: number;
+  credit_hold_id: string | null;
+  price_per_call: number | null;
+  created_at: string;
+  submitted_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+export interface CreateGenerationInput {
+  userId: string;
+  modelId: string;
+  input: Record<string, unknown>;
+}
+
+export interface ListGenerationsOptions {
+  status?: GenerationStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Allowed state transitions
+ * Terminal states (succeeded, failed, cancelled) cannot be left
+ */
+const TRANSITIONS: Record<GenerationStatus, GenerationStatus[]> = {
+  queued: ['running', 'succeeded', 'failed', 'cancelled'],
+  running: ['succeeded', 'failed', 'cancelled'],
+  succeeded: [],
+  failed: [],
+  cancelled: [],
+};
+
+/**
+ * Statuses a job can move to `next` from
+ */
+function allowedFrom(next: GenerationStatus): GenerationStatus[] {
+  return (Object.keys(TRANSITIONS) as GenerationStatus[]).filter(status =>
+    TRANSITIONS[status].includes(next)
+  );
+}
+
+export function isTerminalStatus(status: GenerationStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+export class GenerationJobService {
+  private supabase: SupabaseClient;
+  private falClient: FalApiClient | null;
+  private ledger: CreditLedgerService;
+
+  constructor(supabase?: SupabaseClient, falClient?: FalApiClient, ledger?: CreditLedgerService) {
+    this.supabase = supabase || createAdminClient();
+    this.falClient = falClient || null;
+    this.ledger = ledger || new CreditLedgerService(this.supabase);
+  }
+
+  private getFalClient(): FalApiClient {
+    if (!this.falClient) {
+      this.falClient = new FalApiClient();
+    }
+    return this.falClient;
+  }
+
+  /**
+   * Create a queued job, snapshotting the request's price and
+   * holding its credit cost
+   * Only models exposed by curation can run; their curated defaults,
+   * hidden params and markup apply
+   * Throws ParameterValidationError for bad input, CostEstimationError if
+   * the request can't be priced and InsufficientCreditsError if the user
+   * can't pay; nothing is created in any case
+   */
+  async createGeneration({ userId, modelId, input }: CreateGenerationInput): Promise<Generation> {
+    const [model, curation] = await Promise.all([
+      getAvailableModel(modelId, this.supabase),
+      getModelCuration(modelId, this.supabase),
+    ]);
+
+    if (!model) {
+      throw new Error(`Model is not available: ${modelId}`);
+    }
+
+    const normalizedInput = await validateGenerationInput(modelId, input, {
+      supabase: this.supabase,
+      curation,
+    });
+
+    const quote = await quoteGenerationCost(modelId, normalizedInput, {
+      supabase: this.supabase,
+      falClient: this.getFalClient(),
+      normalized: true,
+      curation,
+    });
+
+    const { data, error } = await this.supabase
+      .from('generations')
+      .insert({
+        user_id: userId,
+        model_id: modelId,
+        status: 'queued',
+        input: normalizedInput,
+        credit_cost: quote.credits,
+        price_per_call: quote.priceUsd,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create generation: ${error.message}`);
+    }
+
+    const generation = data as Generation;
+
+    if (generation.credit_cost > 0) {
+      try {
+        generation.credit_hold_id = await this.ledger.placeHold(userId, generation.credit_cost, generation.id);
+      } catch (holdError) {
+        // Refused work shouldn't show up in the user's history
+        await this.supabase.from('generations').delete().eq('id', generation.id);
+        throw holdError;
+      }
+    }
+
+    return generation;
+  }
+
+  /**
+   * Get a single job
+   */
+  async getGeneration(id: string): Promise<Generation | null> {
+    const { data, error } = await this.supabase
+      .from('generations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch generation ${id}: ${error.message}`);
+    }
+
+    return data as Generation | null;
+  }
+
+  /**
+   * List a user's jobs, newest first
+   */
+  async listGenerations(
+    userId: string,
+    { status, limit = 50, offset = 0 }: ListGenerationsOptions = {}
+  ): Promise<Generation[]> {
+    let query = this.supabase
+      .from('generations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list generations: ${error.message}`);
+    }
+
+    return (data || []) as Generation[];
+  }
+
+  /**
+   * Move a job to a new status
+   * The update is conditional on the current status so concurrent writers
+   * can't move a job out of a terminal state
+   */
+  private async transition(
+    id: string,
+    next: GenerationStatus,
+    fields: Partial<Generation> = {}
+  ): Promise<Generation> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('generations')
+      .update({ ...fields, status: next, updated_at: now })
+      .eq('id', id)
+      .in('status', allowedFrom(next))
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update generation ${id}: ${error.message}`);
+    }
+
+    if (!data) {
+      const current = await this.getGeneration(id);
+      if (!current) {
+        throw new Error(`Generation not found: ${id}`);
+      }
+      throw new Error(`Invalid generation transition for ${id}: ${current.status} -> ${next}`);
+    }
+
+    return data as Generation;
+  }
+
+  /**
+   * Record the FAL request id once the job is in the queue
+   */
+  async markSubmitted(id: string, falRequestId: string): Promise<Generation> {
+    const { data, error } = await this.supabase
+      .from('generations')
+      .update({
+        fal_request_id: falRequestId,
+        submitted_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'queued')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update generation ${id}: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error(`Generation ${id} is no longer queued`);
+    }
+
+    return data as Generation;
+  }
+
+  /**
+   * Capture or release a job's credit hold once it reaches a terminal state
+   * Failures are logged, not thrown: the job status is already final and
+   * open holds can be reconciled later
+   */
+  private async settleHold(generation: Generation, capture: boolean): Promise<void> {
+    if (!generation.credit_hold_id) return;
+
+    try {
+      if (capture) {
+        await this.ledger.captureHold(generation.credit_hold_id);
+      } else {
+        await this.ledger.releaseHold(generation.credit_hold_id);
+      }
+    } catch (error) {
+      console.error(
+        `❌ Failed to ${capture ? 'capture' : 'release'} credit hold ${generation.credit_hold_id} for generation ${generation.id}:`,
+        error
+      );
+    }
+  }
+
+  async markRunning(id: string): Promise<Generation> {
+    return this.transition(id, 'running', { started_at: new Date().toISOString() });
+  }
+
+  async markSucceeded(id: string, output: unknown): Promise<Generation> {
+    const media = normalizeFalOutput(output).items;
+    const generation = await this.transition(id, 'succeeded', {
+      output,
+      output_urls: media.map(item => item.url),
+      output_media: media,
+      completed_at: new Date().toISOString(),
+    });
+    await this.settleHold(generation, true);
+    return generation;
+  }
+
+  async markFailed(id: string, errorMessage: string): Promise<Generation> {
+    const generation = await this.transition(id, 'failed', {
+      error: errorMessage,
+      completed_at: new Date().toISOString(),
+    });
+    await this.settleHold(generation, false);
+    return generation;
+  }
+
+  /**
+   * Cancel a job, also cancelling it on FAL if it was already submitted
+   * A submitted job is only cancelled, and its hold released, once FAL
+   * confirms the cancellation. If FAL already finished the request the job
+   * is returned unchanged for runGeneration to settle; FAL errors are thrown
+   */
+  async cancelGeneration(id: string): Promise<Generation> {
+    const generation = await this.getGeneration(id);
+    if (!generation) {
+      throw new Error(`Generation not found: ${id}`);
+    }
+
+    if (generation.fal_request_id && !isTerminalStatus(generation.status)) {
+      const { status } = await this.getFalClient().cancel(generation.model_id, generation.fal_request_id);
+      if (status === 'ALREADY_COMPLETED') {
+        console.log(`ℹ️ FAL request ${generation.fal_request_id} already completed, not cancelling ${id}`);
+        return generation;
+      }
+    }
+
+    const cancelled = await this.transition(id, 'cancelled', { completed_at: new Date().toISOString() });
+    await this.settleHold(cancelled, false);
+    return cancelled;
+  }
+
+  /**
+   * Submit a queued job to FAL and wait for it to finish
+   */
+  async runGeneration(id: string, options: FalQueueOptions = {}): Promise<Generation> {
+    const generation = await this.getGeneration(id);
+    if (!generation) {
+      throw new Error(`Generation not found: ${id}`);
+    }
+    if (generation.status !== 'queued') {
+      throw new Error(`Generation ${id} is ${generation.status}, expected queued`);
+    }
+
+    const falClient = this.getFalClient();
+
+    try {
+      const { request_id } = await falClient.submit(generation.model_id, generation.input, options);
+      await this.markSubmitted(id, request_id);
+
+      let running = false;
+      const result = await falClient.waitForResult(generation.model_id, request_id, {
+        ...options,
+        onStatus: async status => {
+          if (!running && status.status !== 'IN_QUEUE') {
+            running = true;
+            await this.markRunning(id);
+          }
+          await options.onStatus?.(status);
+        },
+      });
+
+      return await this.markSucceeded(id, result.data);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Generation ${id} failed:`, errorMsg);
+
+      // Job may have been cancelled while we were waiting
+      const current = await this.getGeneration(id);
+      if (current && isTerminalStatus(current.status)) {
+        return current;
+      }
+      return this.markFailed(id, errorMsg);
+    }
+  }
+}
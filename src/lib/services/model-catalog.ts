@@ -0,0 +1,276 @@
+// ============================================================================
+// MODEL CATALOG SERVICE
+// Search, filter and inspect synced models
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+import { parametersFromRows } from '../fal/parameter-validator';
+import type { ModelParameterRow, ParsedParameter, PricingType, TaskType } from '../fal/types';
+
+export type CatalogSort = 'price_asc' | 'price_desc' | 'name' | 'updated';
+
+export interface CatalogFilters {
+  query?: string;
+  taskType?: TaskType;
+  /** e.g. 'upscaling'; matches models carrying the tag */
+  taskTag?: string;
+  category?: string;
+  isActive?: boolean;
+  minCredits?: number;
+  maxCredits?: number;
+  sort?: CatalogSort;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface CatalogModel {
+  id: string;
+  provider_id: string;
+  name: string;
+  display_name: string;
+  description: string | null;
+  task_type: TaskType;
+  task_tags: string[];
+  category: string | null;
+  is_active: boolean;
+  updated_at: string;
+  price_per_call: number | null;
+  min_price: number | null;
+  max_price: number | null;
+  pricing_type: PricingType | null;
+  credit_cost: number | null;
+  pricing_details: Record<string, unknown> | null;
+}
+
+export interface CatalogPage {
+  models: CatalogModel[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface CatalogModelDetail extends CatalogModel {
+  input_schema: Record<string, unknown> | null;
+  output_schema: Record<string, unknown> | null;
+  parameters: ParsedParameter[];
+}
+
+const CATALOG_COLUMNS =
+  'id, provider_id, name, display_name, description, task_type, task_tags, category, is_active, updated_at, ' +
+  'price_per_call, min_price, max_price, pricing_type, credit_cost, pricing_details';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// PostgREST caps responses at 1000 rows
+const READ_PAGE_SIZE = 1000;
+
+async function selectAllPages<T>(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += READ_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + READ_PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to fetch ${label}: ${error.message}`);
+    }
+    const page = (data || []) as T[];
+    rows.push(...page);
+    if (page.length < READ_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Search the catalog
+ */
+export async function searchModels(
+  filters: CatalogFilters = {},
+  supabase: SupabaseClient = createAdminClient()
+): Promise<CatalogPage> {
+  const page = Math.max(1, filters.page || 1);
+  const pageSize = filters.pageSize || DEFAULT_PAGE_SIZE;
+  const from = (page - 1) * pageSize;
+
+  let query = supabase
+    .from('model_catalog')
+    .select(CATALOG_COLUMNS, { count: 'exact' });
+
+  if (filters.query?.trim()) {
+    query = query.textSearch('search_vector', filters.query.trim(), {
+      type: 'websearch',
+      config: 'english',
+    });
+  }
+  if (filters.taskType) {
+    query = query.eq('task_type', filters.taskType);
+  }
+  if (filters.taskTag) {
+    query = query.contains('task_tags', [filters.taskTag]);
+  }
+  if (filters.category) {
+    query = query.eq('category', filters.category);
+  }
+  if (filters.isActive !== undefined) {
+    query = query.eq('is_active', filters.isActive);
+  }
+  if (filters.minCredits !== undefined) {
+    query = query.gte('credit_cost', filters.minCredits);
+  }
+  if (filters.maxCredits !== undefined) {
+    query = query.lte('credit_cost', filters.maxCredits);
+  }
+
+  switch (filters.sort) {
+    case 'price_asc':
+      query = query.order('price_per_call', { ascending: true, nullsFirst: false });
+      break;
+    case 'price_desc':
+      query = query.order('price_per_call', { ascending: false, nullsFirst: false });
+      break;
+    case 'updated':
+      query = query.order('updated_at', { ascending: false });
+      break;
+    default:
+      query = query.order('display_name', { ascending: true });
+  }
+
+  const { data, error, count } = await query.range(from, from + pageSize - 1);
+
+  if (error) {
+    throw new Error(`Failed to search models: ${error.message}`);
+  }
+
+  return {
+    models: (data || []) as unknown as CatalogModel[],
+    total: count || 0,
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * Distinct categories, for the filter dropdown
+ */
+export async function listCategories(
+  supabase: SupabaseClient = createAdminClient()
+): Promise<string[]> {
+  const rows = await selectAllPages<{ id: string; category: string }>(
+    'categories',
+    (from, to) => supabase
+      .from('models')
+      .select('id, category')
+      .not('category', 'is', null)
+      .order('category')
+      .order('id')
+      .range(from, to)
+  );
+
+  return Array.from(new Set(rows.map(row => row.category)));
+}
+
+/**
+ * Model with pricing, input and output schemas and parameters
+ */
+export async function getModelDetail(
+  modelId: string,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<CatalogModelDetail | null> {
+  const { data: model, error: modelError } = await supabase
+    .from('model_catalog')
+    .select(CATALOG_COLUMNS)
+    .eq('id', modelId)
+    .maybeSingle();
+
+  if (modelError) {
+    throw new Error(`Failed to fetch model ${modelId}: ${modelError.message}`);
+  }
+  if (!model) {
+    return null;
+  }
+
+  const [{ data: schemaRow }, { data: rows, error: paramsError }] = await Promise.all([
+    supabase.from('models').select('input_schema, output_schema').eq('id', modelId).single(),
+    supabase
+      .from('model_parameters')
+      .select('*')
+      .eq('model_id', modelId)
+      .order('ui_order', { ascending: true }),
+  ]);
+
+  if (paramsError) {
+    throw new Error(`Failed to fetch parameters for ${modelId}: ${paramsError.message}`);
+  }
+
+  return {
+    ...(model as unknown as CatalogModel),
+    input_schema: schemaRow?.input_schema ?? null,
+    output_schema: schemaRow?.output_schema ?? null,
+    parameters: parametersFromRows((rows || []) as ModelParameterRow[]),
+  };
+}
+
+export interface CatalogStats {
+  total: number;
+  active: number;
+  inactive: number;
+  byTaskType: Record<string, number>;
+  /** Models without a pricing row */
+  missingPricing: string[];
+  /** Models the FAL pricing API doesn't know (pricing_type 'unknown') */
+  unknownPricing: string[];
+  /** Models without any parsed parameters */
+  missingParameters: string[];
+}
+
+/**
+ * Catalog health: counts by task type and models missing pricing or parameters
+ */
+export async function getCatalogStats(
+  { filter }: { filter?: (modelId: string) => boolean } = {},
+  supabase: SupabaseClient = createAdminClient()
+): Promise<CatalogStats> {
+  const [allModels, parameterRows] = await Promise.all([
+    selectAllPages<{ id: string; task_type: string; is_active: boolean; pricing_type: string | null }>(
+      'models',
+      (from, to) => supabase
+        .from('model_catalog')
+        .select('id, task_type, is_active, pricing_type')
+        .order('id')
+        .range(from, to)
+    ),
+    selectAllPages<{ model_id: string }>(
+      'parameters',
+      (from, to) => supabase
+        .from('model_parameters')
+        .select('model_id')
+        .order('model_id')
+        .range(from, to)
+    ),
+  ]);
+
+  const models = filter ? allModels.filter(model => filter(model.id)) : allModels;
+  const withParameters = new Set(parameterRows.map(row => row.model_id));
+
+  const stats: CatalogStats = {
+    total: models.length,
+    active: 0,
+    inactive: 0,
+    byTaskType: {},
+    missingPricing: [],
+    unknownPricing: [],
+    missingParameters: [],
+  };
+
+  for (const model of models) {
+    if (model.is_active) stats.active++;
+    else stats.inactive++;
+    stats.byTaskType[model.task_type] = (stats.byTaskType[model.task_type] || 0) + 1;
+    // pricing_type comes from the left-joined pricing row
+    if (model.pricing_type === null) stats.missingPricing.push(model.id);
+    if (model.pricing_type === 'unknown') stats.unknownPricing.push(model.id);
+    if (!withParameters.has(model.id)) stats.missingParameters.push(model.id);
+  }
+
+  return stats;
+}
@@ -0,0 +1,351 @@
+// ============================================================================
+// MODEL CURATION SERVICE
+// Admin control over which synced models end users see and how they're
+// presented and priced. Lives in model_curations, which the sync never writes
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+import { validateParameters } from '../fal/parameter-validator';
+import { loadModelParameters } from './parameter-validation';
+import type { ParsedParameter, PricingType, TaskType } from '../fal/types';
+
+/** null follows the exposure mode */
+export type CurationStatus = 'allowed' | 'blocked';
+
+/**
+ * allowlist: only allowed models are exposed
+ * blocklist: every active model is exposed unless blocked
+ */
+export type ExposureMode = 'allowlist' | 'blocklist';
+
+export interface ModelCuration {
+  model_id: string;
+  status: CurationStatus | null;
+  /** null keeps the synced value */
+  display_name: string | null;
+  description: string | null;
+  /** Featured models sort first, lowest rank first */
+  featured_rank: number | null;
+  /** Replace the model's parameter defaults */
+  default_params: Record<string, unknown>;
+  /** Not shown to users; always sent with their default */
+  hidden_params: string[];
+  /** Multiplies the USD price before it's converted to credits */
+  price_markup: number;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CurationUpdate = Partial<Omit<ModelCuration, 'model_id' | 'created_at' | 'updated_at'>>;
+
+/**
+ * Row of the available_models view: an exposed model with curation applied
+ */
+export interface AvailableModel {
+  id: string;
+  provider_id: string;
+  display_name: string;
+  description: string | null;
+  task_type: TaskType;
+  task_tags: string[];
+  category: string | null;
+  updated_at: string;
+  price_per_call: number | null;
+  min_price: number | null;
+  max_price: number | null;
+  pricing_type: PricingType | null;
+  featured_rank: number | null;
+  price_markup: number;
+}
+
+export interface CurationFieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when a curation update doesn't fit the model
+ */
+export class CurationValidationError extends Error {
+  constructor(
+    public readonly modelId: string,
+    public readonly errors: CurationFieldError[]
+  ) {
+    super(`Invalid curation for ${modelId}: ${errors.map(err => err.message).join('; ')}`);
+    this.name = 'CurationValidationError';
+  }
+}
+
+// numeric(6, 3)
+const MAX_PRICE_MARKUP = 999.999;
+
+const CURATION_DEFAULTS = {
+  status: null,
+  display_name: null,
+  description: null,
+  featured_rank: null,
+  default_params: {},
+  hidden_params: [],
+  price_markup: 1,
+  note: null,
+};
+
+/**
+ * Whether a model is exposed to end users; mirrors the available_models view
+ */
+export function isModelExposed(
+  isActive: boolean,
+  status: CurationStatus | null | undefined,
+  mode: ExposureMode
+): boolean {
+  if (!isActive) return false;
+  return status === 'allowed' || (mode === 'blocklist' && status !== 'blocked');
+}
+
+/**
+ * Parameters with curated defaults applied
+ */
+export function curateParameters(
+  parameters: ParsedParameter[],
+  curation: Pick<ModelCuration, 'default_params'> | null | undefined
+): ParsedParameter[] {
+  const defaults = curation?.default_params || {};
+  return parameters.map(param =>
+    param.name in defaults ? { ...param, defaultValue: defaults[param.name] } : param
+  );
+}
+
+/**
+ * Parameters a user may set, for generation forms
+ */
+export function visibleParameters(
+  parameters: ParsedParameter[],
+  curation: Pick<ModelCuration, 'default_params' | 'hidden_params'> | null | undefined
+): ParsedParameter[] {
+  const hidden = new Set(curation?.hidden_params || []);
+  return curateParameters(parameters, curation).filter(param => !hidden.has(param.name));
+}
+
+/**
+ * Drop values users sent for hidden parameters so their defaults apply
+ */
+export function stripHiddenParams(
+  params: Record<string, unknown>,
+  curation: Pick<ModelCuration, 'hidden_params'> | null | undefined
+): Record<string, unknown> {
+  const hidden = new Set(curation?.hidden_params || []);
+  return Object.fromEntries(Object.entries(params).filter(([name]) => !hidden.has(name)));
+}
+
+/**
+ * Check a curation against the model's parameters
+ * Returns the errors and the default params coerced to their types
+ */
+export function validateCuration(
+  curation: Pick<ModelCuration, 'featured_rank' | 'price_markup' | 'default_params' | 'hidden_params'>,
+  parameters: ParsedParameter[]
+): { errors: CurationFieldError[]; defaultParams: Record<string, unknown> } {
+  const errors: CurationFieldError[] = [];
+  let defaultParams = curation.default_params;
+
+  if (curation.featured_rank !== null && (!Number.isInteger(curation.featured_rank) || curation.featured_rank < 0)) {
+    errors.push({ field: 'featured_rank', message: 'Featured rank must be a whole number of at least 0' });
+  }
+  if (!Number.isFinite(curation.price_markup) || curation.price_markup <= 0 || curation.price_markup > MAX_PRICE_MARKUP) {
+    errors.push({ field: 'price_markup', message: `Price markup must be above 0 and at most ${MAX_PRICE_MARKUP}` });
+  }
+
+  // Models without a known schema can't be checked
+  if (parameters.length === 0) {
+    return { errors, defaultParams };
+  }
+
+  // Every default must be a valid value, but none is required
+  const overridden = parameters
+    .filter(param => param.name in curation.default_params)
+    .map(param => ({ ...param, required: false }));
+  const result = validateParameters(overridden, curation.default_params);
+  if (result.valid) {
+    defaultParams = result.params;
+  } else {
+    errors.push(...result.errors.map(err => ({ field: `default_params.${err.field}`, message: err.message })));
+  }
+
+  const byName = new Map(parameters.map(param => [param.name, param]));
+  for (const name of curation.hidden_params) {
+    const param = byName.get(name);
+    if (!param) {
+      errors.push({ field: 'hidden_params', message: `Unknown parameter: ${name}` });
+    } else if (param.required && param.defaultValue == null && curation.default_params[name] == null) {
+      // Users couldn't fill it in, so every request would be rejected
+      errors.push({ field: 'hidden_params', message: `${name} is required and needs a default to be hidden` });
+    }
+  }
+
+  return { errors, defaultParams };
+}
+
+/**
+ * Current exposure mode
+ */
+export async function getExposureMode(
+  supabase: SupabaseClient = createAdminClient()
+): Promise<ExposureMode> {
+  const { data, error } = await supabase
+    .from('model_curation_settings')
+    .select('exposure_mode')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch curation settings: ${error.message}`);
+  }
+
+  return (data?.exposure_mode as ExposureMode) || 'allowlist';
+}
+
+export async function setExposureMode(
+  mode: ExposureMode,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<void> {
+  const { error } = await supabase
+    .from('model_curation_settings')
+    .upsert({ id: true, exposure_mode: mode, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(`Failed to update exposure mode: ${error.message}`);
+  }
+}
+
+/**
+ * Every curation, by model id
+ */
+export async function listCurations(
+  supabase: SupabaseClient = createAdminClient()
+): Promise<Map<string, ModelCuration>> {
+  const { data, error } = await supabase.from('model_curations').select('*');
+
+  if (error) {
+    throw new Error(`Failed to fetch curations: ${error.message}`);
+  }
+
+  return new Map(
+    (data || []).map((row: ModelCuration) => [row.model_id, { ...row, price_markup: Number(row.price_markup) }])
+  );
+}
+
+export async function getModelCuration(
+  modelId: string,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<ModelCuration | null> {
+  const { data, error } = await supabase
+    .from('model_curations')
+    .select('*')
+    .eq('model_id', modelId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch curation for ${modelId}: ${error.message}`);
+  }
+
+  return data ? { ...data, price_markup: Number(data.price_markup) } as ModelCuration : null;
+}
+
+/**
+ * Create or update a model's curation
+ * Fields left out of the update keep their current value
+ * Throws CurationValidationError if it doesn't fit the model's parameters
+ */
+export async function saveModelCuration(
+  modelId: string,
+  update: CurationUpdate,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<ModelCuration> {
+  const [current, parameters] = await Promise.all([
+    getModelCuration(modelId, supabase),
+    loadModelParameters(modelId, supabase),
+  ]);
+
+  const merged = { ...CURATION_DEFAULTS, ...current, ...update };
+  const { errors, defaultParams } = validateCuration(merged, parameters);
+  if (errors.length > 0) {
+    throw new CurationValidationError(modelId, errors);
+  }
+
+  const { data, error } = await supabase
+    .from('model_curations')
+    .upsert({
+      model_id: modelId,
+      status: merged.status,
+      display_name: merged.display_name?.trim() || null,
+      description: merged.description?.trim() || null,
+      featured_rank: merged.featured_rank,
+      default_params: defaultParams,
+      hidden_params: Array.from(new Set(merged.hidden_params)),
+      price_markup: merged.price_markup,
+      note: merged.note?.trim() || null,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save curation for ${modelId}: ${error.message}`);
+  }
+
+  return { ...data, price_markup: Number(data.price_markup) } as ModelCuration;
+}
+
+/**
+ * Remove a model's curation; it follows the exposure mode again
+ */
+export async function deleteModelCuration(
+  modelId: string,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<void> {
+  const { error } = await supabase.from('model_curations').delete().eq('model_id', modelId);
+
+  if (error) {
+    throw new Error(`Failed to delete curation for ${modelId}: ${error.message}`);
+  }
+}
+
+/**
+ * Models end users can see, featured first
+ */
+export async function listAvailableModels(
+  supabase: SupabaseClient = createAdminClient()
+): Promise<AvailableModel[]> {
+  const { data, error } = await supabase
+    .from('available_models')
+    .select('*')
+    .order('featured_rank', { ascending: true, nullsFirst: false })
+    .order('display_name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch available models: ${error.message}`);
+  }
+
+  return (data || []).map((row: AvailableModel) => ({ ...row, price_markup: Number(row.price_markup) }));
+}
+
+/**
+ * An exposed model, or null if users can't run it
+ */
+export async function getAvailableModel(
+  modelId: string,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<AvailableModel | null> {
+  const { data, error } = await supabase
+    .from('available_models')
+    .select('*')
+    .eq('id', modelId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch model ${modelId}: ${error.message}`);
+  }
+
+  return data ? { ...data, price_markup: Number(data.price_markup) } as AvailableModel : null;
+}
@@ -0,0 +1,227 @@
+// ============================================================================
+// MODEL CHANGE HISTORY
+// Structured diffs of model metadata, parameters and pricing between syncs
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+
+export type ModelChangeType = 'added' | 'updated' | 'removed' | 'reactivated';
+
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface ParameterChanges {
+  added: string[];
+  removed: string[];
+  changed: Array<{ name: string; fields: Record<string, FieldChange> }>;
+}
+
+export interface ModelChanges {
+  model?: Record<string, FieldChange>;
+  /** Schemas are too large to store twice; parameter diffs show the effect */
+  inputSchemaChanged?: boolean;
+  outputSchemaChanged?: boolean;
+  parameters?: ParameterChanges;
+  pricing?: Record<string, FieldChange>;
+}
+
+export interface ModelChangeRecord {
+  id: number;
+  model_id: string;
+  change_type: ModelChangeType;
+  changes: ModelChanges;
+  old_price_per_call: number | null;
+  new_price_per_call: number | null;
+  old_credit_cost: number | null;
+  new_credit_cost: number | null;
+  sync_started_at: string;
+  created_at: string;
+}
+
+export interface NewModelChange {
+  modelId: string;
+  changeType: ModelChangeType;
+  changes: ModelChanges;
+  oldPricing?: Record<string, unknown> | null;
+  newPricing?: Record<string, unknown> | null;
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set([
+  'id',
+  'model_id',
+  'created_at',
+  'updated_at',
+  'last_updated',
+  'content_hash',
+  'sync_hashes',
+  'input_schema',
+  'output_schema',
+]);
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Field-level diff of two flat records
+ */
+export function diffFields(
+  oldRecord: Record<string, unknown> | null | undefined,
+  newRecord: Record<string, unknown> | null | undefined
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const keys = new Set([...Object.keys(oldRecord || {}), ...Object.keys(newRecord || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    // Only compare fields the sync writes
+    if (newRecord && !(key in newRecord)) continue;
+
+    const oldValue = oldRecord?.[key];
+    const newValue = newRecord?.[key];
+    if (!isEqual(oldValue, newValue)) {
+      changes[key] = { old: oldValue ?? null, new: newValue ?? null };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Diff two sets of model_parameters rows by parameter_name
+ */
+export function diffParameters(
+  oldRows: Record<string, unknown>[],
+  newRows: Record<string, unknown>[]
+): ParameterChanges {
+  const oldByName = new Map(oldRows.map(row => [String(row.parameter_name), row]));
+  const newByName = new Map(newRows.map(row => [String(row.parameter_name), row]));
+
+  const changes: ParameterChanges = { added: [], removed: [], changed: [] };
+
+  for (const [name, row] of newByName) {
+    const previous = oldByName.get(name);
+    if (!previous) {
+      changes.added.push(name);
+      continue;
+    }
+    const fields = diffFields(previous, row);
+    if (Object.keys(fields).length > 0) {
+      changes.changed.push({ name, fields });
+    }
+  }
+
+  for (const name of oldByName.keys()) {
+    if (!newByName.has(name)) {
+      changes.removed.push(name);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * True if a diff contains anything worth recording
+ */
+export function hasChanges(changes: ModelChanges): boolean {
+  const params = changes.parameters;
+  return (
+    Object.keys(changes.model || {}).length > 0 ||
+    Object.keys(changes.pricing || {}).length > 0 ||
+    changes.inputSchemaChanged === true ||
+    changes.outputSchemaChanged === true ||
+    (!!params && (params.added.length > 0 || params.removed.length > 0 || params.changed.length > 0))
+  );
+}
+
+function toHistoryRow(change: NewModelChange, syncStartedAt: string) {
+  return {
+    model_id: change.modelId,
+    change_type: change.changeType,
+    changes: change.changes,
+    old_price_per_call: change.oldPricing?.price_per_call ?? null,
+    new_price_per_call: change.newPricing?.price_per_call ?? null,
+    old_credit_cost: change.oldPricing?.credit_cost ?? null,
+    new_credit_cost: change.newPricing?.credit_cost ?? null,
+    sync_started_at: syncStartedAt,
+  };
+}
+
+/**
+ * Write history records for one sync run
+ */
+export async function recordModelChanges(
+  supabase: SupabaseClient,
+  changes: NewModelChange[],
+  syncStartedAt: string
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  const { error } = await supabase
+    .from('model_change_history')
+    .insert(changes.map(change => toHistoryRow(change, syncStartedAt)));
+
+  if (error) {
+    throw new Error(`Failed to record model history: ${error.message}`);
+  }
+}
+
+/**
+ * History of a model, newest first
+ */
+export async function getModelHistory(
+  modelId: string,
+  { limit = 50, since }: { limit?: number; since?: string } = {},
+  supabase: SupabaseClient = createAdminClient()
+): Promise<ModelChangeRecord[]> {
+  let query = supabase
+    .from('model_change_history')
+    .select('*')
+    .eq('model_id', modelId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch history for ${modelId}: ${error.message}`);
+  }
+
+  return (data || []) as ModelChangeRecord[];
+}
+
+/**
+ * All price changes in a time window, for billing reconciliation
+ */
+export async function getPriceChanges(
+  { since, until, limit = 500 }: { since: string; until?: string; limit?: number },
+  supabase: SupabaseClient = createAdminClient()
+): Promise<ModelChangeRecord[]> {
+  let query = supabase
+    .from('model_change_history')
+    .select('*')
+    .gte('created_at', since)
+    .not('changes->pricing', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (until) {
+    query = query.lte('created_at', until);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch price changes: ${error.message}`);
+  }
+
+  return (data || []) as ModelChangeRecord[];
+}
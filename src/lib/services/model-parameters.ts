@@ -0,0 +1,153 @@
+// ============================================================================
+// MODEL PARAMETERS
+// Building and refreshing model_parameters rows
+// ============================================================================
+
+import { FalApiClient } from '../fal/api-client';
+import { FalNotFoundError } from '../fal/errors';
+import { extractInputSchemaFromOpenAPI } from '../fal/openapi';
+import { parseSchemaToParameters } from '../fal/schema-parser';
+import { sanitizeValue } from '../fal/sanitize';
+import { SupabaseModelRepository } from '../repositories/supabase-model-repository';
+import type { ModelRepository, ParameterSet } from '../repositories/model-repository';
+import type { ParsedParameter } from '../fal/types';
+
+export interface RefreshParametersOptions {
+  /** Models to refresh; defaults to every model in the database */
+  modelIds?: string[];
+  /** Only refresh model ids accepted by this predicate */
+  filter?: (modelId: string) => boolean;
+  /** Schema fetches in flight at once */
+  concurrency?: number;
+  /** Parse schemas without writing anything */
+  dryRun?: boolean;
+  repository?: ModelRepository;
+  falClient?: FalApiClient;
+}
+
+export interface RefreshParametersResult {
+  updated: Array<{ modelId: string; parameters: number }>;
+  skipped: Array<{ modelId: string; reason: string }>;
+  failed: Array<{ modelId: string; error: string }>;
+}
+
+// Parameter sets written per replace_model_parameters call
+const REFRESH_BATCH_SIZE = 25;
+
+/**
+ * Map parsed parameters to sanitized model_parameters rows
+ */
+export function toParameterRecords(
+  modelId: string,
+  parameters: ParsedParameter[]
+): Record<string, unknown>[] {
+  return parameters.map(param => sanitizeValue({
+    model_id: modelId,
+    parameter_name: param.name,
+    parameter_type: param.type,
+    is_required: param.required,
+    // JSON keeps false, 0 and object defaults; parametersFromRows parses it back
+    default_value: param.defaultValue === undefined ? null : JSON.stringify(param.defaultValue),
+    min_value: param.minValue,
+    max_value: param.maxValue,
+    allowed_values: param.allowedValues,
+    ui_label: param.uiLabel,
+    ui_placeholder: param.uiPlaceholder,
+    ui_help_text: param.uiHelpText,
+    ui_order: param.uiOrder,
+    ui_group: param.uiGroup,
+  }));
+}
+
+/**
+ * Fetch a model's OpenAPI schema from FAL and parse its input parameters
+ * Returns null if the model has no usable input schema
+ */
+export async function fetchModelParameters(
+  modelId: string,
+  falClient: FalApiClient = new FalApiClient()
+): Promise<ParsedParameter[] | null> {
+  const openapi = await falClient.fetchModelSchema(modelId);
+  const inputSchema = extractInputSchemaFromOpenAPI(openapi, modelId);
+  return inputSchema ? parseSchemaToParameters(inputSchema) : null;
+}
+
+/**
+ * Re-fetch schemas from FAL and replace the stored parameters of each model
+ */
+export async function refreshModelParameters(
+  options: RefreshParametersOptions = {}
+): Promise<RefreshParametersResult> {
+  const repository = options.repository || new SupabaseModelRepository();
+  const concurrency = Math.max(1, options.concurrency || 4);
+  // The client's scheduler enforces the limit across all workers
+  const falClient = options.falClient || new FalApiClient(undefined, { concurrency });
+  const result: RefreshParametersResult = { updated: [], skipped: [], failed: [] };
+
+  const allIds = options.modelIds || await repository.listModelIds();
+  const modelIds = options.filter ? allIds.filter(options.filter) : allIds;
+
+  let pending: ParameterSet[] = [];
+
+  const flush = async () => {
+    const sets = pending;
+    pending = [];
+    if (sets.length === 0) return;
+
+    const { replaced, failed } = await repository.replaceParameters(sets);
+    for (const row of replaced) {
+      result.updated.push({ modelId: row.modelId, parameters: row.inserted });
+      console.log(`  ✅ ${row.modelId}: ${row.inserted} parameters`);
+    }
+    for (const failure of failed) {
+      result.failed.push(failure);
+      console.error(`  ❌ ${failure.modelId}: ${failure.error}`);
+    }
+  };
+
+  const refreshOne = async (modelId: string) => {
+    let parameters: ParsedParameter[] | null;
+    try {
+      parameters = await fetchModelParameters(modelId, falClient);
+    } catch (error) {
+      if (error instanceof FalNotFoundError) {
+        result.skipped.push({ modelId, reason: 'schema not found' });
+        console.warn(`  ⚠️ ${modelId}: schema not available, skipping`);
+      } else {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        result.failed.push({ modelId, error: `Schema fetch failed: ${errorMsg}` });
+        console.error(`  ❌ ${modelId}: ${errorMsg}`);
+      }
+      return;
+    }
+
+    if (!parameters || parameters.length === 0) {
+      result.skipped.push({ modelId, reason: 'no input parameters' });
+      console.warn(`  ⚠️ ${modelId}: no input parameters, skipping`);
+      return;
+    }
+
+    if (options.dryRun) {
+      result.updated.push({ modelId, parameters: parameters.length });
+      console.log(`  📋 ${modelId}: ${parameters.length} parameters (dry run)`);
+      return;
+    }
+
+    pending.push({ modelId, parameters: toParameterRecords(modelId, parameters) });
+    if (pending.length >= REFRESH_BATCH_SIZE) {
+      await flush();
+    }
+  };
+
+  // Fixed-size worker pool over the model list
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, modelIds.length) }, async () => {
+    while (next < modelIds.length) {
+      await refreshOne(modelIds[next++]);
+    }
+  });
+  await Promise.all(workers);
+  await flush();
+
+  return result;
+}
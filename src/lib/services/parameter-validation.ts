@@ -0,0 +1,114 @@
+// ============================================================================
+// PARAMETER VALIDATION SERVICE
+// Validates generation inputs against a synced model's parameters
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../supabase/admin';
+import {
+  parametersFromRows,
+  validateParameters,
+  ValidateOptions,
+} from '../fal/parameter-validator';
+import { parseSchemaToParameters } from '../fal/schema-parser';
+import type {
+  ModelParameterRow,
+  ParameterFieldError,
+  ParsedParameter,
+} from '../fal/types';
+import { curateParameters, stripHiddenParams, type ModelCuration } from './model-curation';
+
+/**
+ * Thrown when generation input doesn't match the model's parameters
+ */
+export class ParameterValidationError extends Error {
+  constructor(
+    public readonly modelId: string,
+    public readonly errors: ParameterFieldError[]
+  ) {
+    super(`Invalid parameters for ${modelId}: ${errors.map(err => err.message).join('; ')}`);
+    this.name = 'ParameterValidationError';
+  }
+}
+
+/**
+ * Load parameter definitions for a model
+ * Prefers model_parameters rows and falls back to the stored input_schema
+ */
+export async function loadModelParameters(
+  modelId: string,
+  supabase: SupabaseClient = createAdminClient()
+): Promise<ParsedParameter[]> {
+  const { data: rows, error: rowsError } = await supabase
+    .from('model_parameters')
+    .select('*')
+    .eq('model_id', modelId)
+    .order('ui_order', { ascending: true });
+
+  if (rowsError) {
+    throw new Error(`Failed to fetch parameters for ${modelId}: ${rowsError.message}`);
+  }
+
+  if (rows && rows.length > 0) {
+    return parametersFromRows(rows as ModelParameterRow[]);
+  }
+
+  const { data: model, error: modelError } = await supabase
+    .from('models')
+    .select('input_schema')
+    .eq('id', modelId)
+    .single();
+
+  if (modelError || !model) {
+    throw new Error(`Model not found: ${modelId}`);
+  }
+
+  const schema = model.input_schema as Record<string, unknown> | null;
+  if (!schema || !schema.properties) {
+    return [];
+  }
+
+  return parametersFromSchema(schema);
+}
+
+/**
+ * Convert a JSON input schema into parameter definitions
+ */
+export function parametersFromSchema(inputSchema: Record<string, unknown>): ParsedParameter[] {
+  return parseSchemaToParameters(inputSchema);
+}
+
+export interface GenerationInputOptions extends ValidateOptions {
+  supabase?: SupabaseClient;
+  /** Admin curation: its defaults apply and hidden params can't be set */
+  curation?: ModelCuration | null;
+}
+
+/**
+ * Validate and normalize params for a model
+ * Returns the normalized params or throws ParameterValidationError, also
+ * when the model has no parameter definitions to check against
+ */
+export async function validateGenerationInput(
+  modelId: string,
+  params: Record<string, unknown>,
+  options: GenerationInputOptions = {}
+): Promise<Record<string, unknown>> {
+  const { supabase, curation, ...validateOptions } = options;
+  const parameters = curateParameters(await loadModelParameters(modelId, supabase), curation);
+  const input = stripHiddenParams(params, curation);
+
+  // Unchecked input would go to FAL and pricing as is; refuse it
+  if (parameters.length === 0) {
+    throw new ParameterValidationError(modelId, [
+      { field: '', code: 'schema', message: 'Model has no parameter definitions' },
+    ]);
+  }
+
+  const result = validateParameters(parameters, input, validateOptions);
+  if (!result.valid) {
+    throw new ParameterValidationError(modelId, result.errors);
+  }
+
+  return result.params;
+}
@@ -0,0 +1,240 @@
+// ============================================================================
+// SYNC PLAN
+// What a dry-run sync would write, as structured data and a readable report
+// ============================================================================
+
+import type { FieldChange, ModelChanges, ParameterChanges } from './model-history';
+
+export type PlannedModelAction = 'insert' | 'update' | 'reactivate' | 'unchanged';
+export type PlannedRowAction = 'insert' | 'update' | 'replace' | 'none';
+
+export interface PlannedModel {
+  modelId: string;
+  /** Write to the models row */
+  action: PlannedModelAction;
+  modelChanges: Record<string, FieldChange>;
+  inputSchemaChanged: boolean;
+  outputSchemaChanged: boolean;
+  parameters: {
+    action: PlannedRowAction;
+    /** Rows deleted and inserted by the replacement */
+    deleted: number;
+    inserted: number;
+    changes: ParameterChanges | null;
+  };
+  pricing: {
+    action: PlannedRowAction;
+    changes: Record<string, FieldChange>;
+    oldPricePerCall: number | null;
+    newPricePerCall: number | null;
+    oldCreditCost: number | null;
+    newCreditCost: number | null;
+  };
+}
+
+export interface SyncPlan {
+  generatedAt: string;
+  creditRate: number;
+  models: PlannedModel[];
+  /** Models that would be marked inactive because they left the FAL catalog */
+  deactivate: string[];
+  /** Set when the removal guard would refuse to deactivate */
+  deactivateBlocked: string | null;
+  /** Models (and their parameters and pricing) that would be deleted */
+  purge: string[];
+  totals: {
+    modelsInserted: number;
+    modelsUpdated: number;
+    modelsReactivated: number;
+    modelsUnchanged: number;
+    parameterRowsDeleted: number;
+    parameterRowsInserted: number;
+    pricingInserted: number;
+    pricingUpdated: number;
+    creditCostChanges: number;
+  };
+}
+
+export interface PlannedModelInput {
+  modelId: string;
+  isNew: boolean;
+  reactivated: boolean;
+  modelChanged: boolean;
+  parametersChanged: boolean;
+  pricingChanged: boolean;
+  changes: ModelChanges;
+  oldParameterCount: number;
+  newParameterCount: number;
+  oldPricing: Record<string, unknown> | null;
+  newPricing: Record<string, unknown>;
+}
+
+function numberOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * Describe the writes for one staged model
+ */
+export function planModel(input: PlannedModelInput): PlannedModel {
+  const modelAction: PlannedModelAction = input.isNew
+    ? 'insert'
+    : input.reactivated
+      ? 'reactivate'
+      : input.modelChanged
+        ? 'update'
+        : 'unchanged';
+
+  let pricingAction: PlannedRowAction = 'none';
+  if (input.pricingChanged) {
+    pricingAction = input.oldPricing ? 'update' : 'insert';
+  }
+
+  return {
+    modelId: input.modelId,
+    action: modelAction,
+    modelChanges: input.changes.model || {},
+    inputSchemaChanged: input.changes.inputSchemaChanged === true,
+    outputSchemaChanged: input.changes.outputSchemaChanged === true,
+    parameters: input.parametersChanged
+      ? {
+          action: input.isNew ? 'insert' : 'replace',
+          deleted: input.oldParameterCount,
+          inserted: input.newParameterCount,
+          changes: input.changes.parameters || null,
+        }
+      : { action: 'none', deleted: 0, inserted: 0, changes: null },
+    pricing: {
+      action: pricingAction,
+      changes: input.changes.pricing || {},
+      oldPricePerCall: numberOrNull(input.oldPricing?.price_per_call),
+      newPricePerCall: numberOrNull(input.newPricing.price_per_call),
+      oldCreditCost: numberOrNull(input.oldPricing?.credit_cost),
+      newCreditCost: numberOrNull(input.newPricing.credit_cost),
+    },
+  };
+}
+
+/**
+ * Assemble the plan and its totals
+ */
+export function buildSyncPlan(fields: {
+  creditRate: number;
+  models: PlannedModel[];
+  modelsUnchanged: number;
+  deactivate: string[];
+  deactivateBlocked: string | null;
+  purge: string[];
+}): SyncPlan {
+  const totals: SyncPlan['totals'] = {
+    modelsInserted: 0,
+    modelsUpdated: 0,
+    modelsReactivated: 0,
+    modelsUnchanged: fields.modelsUnchanged,
+    parameterRowsDeleted: 0,
+    parameterRowsInserted: 0,
+    pricingInserted: 0,
+    pricingUpdated: 0,
+    creditCostChanges: 0,
+  };
+
+  for (const model of fields.models) {
+    if (model.action === 'insert') totals.modelsInserted++;
+    else if (model.action === 'reactivate') totals.modelsReactivated++;
+    else totals.modelsUpdated++;
+
+    totals.parameterRowsDeleted += model.parameters.deleted;
+    totals.parameterRowsInserted += model.parameters.inserted;
+
+    if (model.pricing.action === 'insert') totals.pricingInserted++;
+    if (model.pricing.action === 'update') totals.pricingUpdated++;
+    if (model.pricing.action !== 'none' && model.pricing.oldCreditCost !== model.pricing.newCreditCost) {
+      totals.creditCostChanges++;
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    creditRate: fields.creditRate,
+    models: fields.models,
+    deactivate: fields.deactivate,
+    deactivateBlocked: fields.deactivateBlocked,
+    purge: fields.purge,
+    totals,
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '∅';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function formatCredits(value: number | null): string {
+  return value === null ? '∅' : String(value);
+}
+
+/**
+ * Human-readable report of a plan
+ */
+export function formatSyncPlan(plan: SyncPlan): string {
+  const { totals } = plan;
+  const lines: string[] = [
+    `Sync plan (dry run) — ${plan.generatedAt}`,
+    `Credit rate: $${plan.creditRate.toFixed(4)} per credit`,
+    '',
+    `models:           ${totals.modelsInserted} insert, ${totals.modelsUpdated} update, ` +
+      `${totals.modelsReactivated} reactivate, ${plan.deactivate.length} deactivate, ` +
+      `${plan.purge.length} delete, ${totals.modelsUnchanged} unchanged`,
+    `model_parameters: ${totals.parameterRowsDeleted} delete, ${totals.parameterRowsInserted} insert`,
+    `model_pricing:    ${totals.pricingInserted} insert, ${totals.pricingUpdated} update, ` +
+      `${totals.creditCostChanges} credit cost changes`,
+  ];
+
+  for (const model of plan.models) {
+    lines.push('', `${model.action.toUpperCase()} ${model.modelId}`);
+
+    for (const [field, change] of Object.entries(model.modelChanges)) {
+      if (model.action === 'insert') continue;
+      lines.push(`  ${field}: ${formatValue(change.old)} → ${formatValue(change.new)}`);
+    }
+    if (model.inputSchemaChanged) {
+      lines.push('  input_schema changed');
+    }
+    if (model.outputSchemaChanged) {
+      lines.push('  output_schema changed');
+    }
+
+    const params = model.parameters;
+    if (params.action !== 'none') {
+      lines.push(`  parameters: -${params.deleted} +${params.inserted} rows`);
+      if (params.changes && model.action !== 'insert') {
+        if (params.changes.added.length) lines.push(`    added: ${params.changes.added.join(', ')}`);
+        if (params.changes.removed.length) lines.push(`    removed: ${params.changes.removed.join(', ')}`);
+        for (const changed of params.changes.changed) {
+          lines.push(`    changed: ${changed.name} (${Object.keys(changed.fields).join(', ')})`);
+        }
+      }
+    }
+
+    const pricing = model.pricing;
+    if (pricing.action !== 'none') {
+      lines.push(
+        `  pricing (${pricing.action}): $${formatValue(pricing.oldPricePerCall)} → $${formatValue(pricing.newPricePerCall)}, ` +
+          `credits ${formatCredits(pricing.oldCreditCost)} → ${formatCredits(pricing.newCreditCost)}`
+      );
+    }
+  }
+
+  if (plan.deactivateBlocked) {
+    lines.push('', `DEACTIVATE blocked: ${plan.deactivateBlocked}`);
+  }
+  for (const id of plan.deactivate) {
+    lines.push('', `DEACTIVATE ${id}`);
+  }
+  for (const id of plan.purge) {
+    lines.push('', `DELETE ${id} (with parameters and pricing)`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,88 @@
+// ============================================================================
+// TASK OVERRIDE SERVICE
+// Admin corrections to the task classifier. Stored in model_task_overrides
+// and applied by the next sync
+// ============================================================================
+
+import { SupabaseModelRepository } from '../repositories/supabase-model-repository';
+import type { ModelRepository } from '../repositories/model-repository';
+import type { TaskOverride } from '../fal/task-classifier';
+import type { TaskType } from '../fal/types';
+
+// Mirrors the check constraint on model_task_overrides.task_type
+export const TASK_TYPES: TaskType[] = ['IMAGE', 'VIDEO', 'AUDIO', 'TEXT', 'MULTIMODAL'];
+
+// Tags are kebab-case, e.g. image-to-video
+const TAG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Thrown when an override has an unknown task type or malformed tags
+ */
+export class TaskOverrideValidationError extends Error {
+  constructor(
+    public readonly modelId: string,
+    message: string
+  ) {
+    super(`Invalid task override for ${modelId}: ${message}`);
+    this.name = 'TaskOverrideValidationError';
+  }
+}
+
+/**
+ * Check an override and normalize its tags (trimmed, lowercase, unique, sorted)
+ */
+export function normalizeTaskOverride(modelId: string, override: TaskOverride): TaskOverride {
+  if (override.taskType === null && override.tags === null) {
+    throw new TaskOverrideValidationError(modelId, 'set a task type or tags, or clear the override');
+  }
+  if (override.taskType !== null && !TASK_TYPES.includes(override.taskType)) {
+    throw new TaskOverrideValidationError(modelId, `unknown task type ${override.taskType}`);
+  }
+
+  if (override.tags === null) {
+    return { taskType: override.taskType, tags: null };
+  }
+
+  const tags = new Set(override.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean));
+  const malformed = Array.from(tags).filter(tag => !TAG_PATTERN.test(tag));
+  if (malformed.length > 0) {
+    throw new TaskOverrideValidationError(modelId, `tags must be kebab-case: ${malformed.join(', ')}`);
+  }
+
+  return { taskType: override.taskType, tags: Array.from(tags).sort() };
+}
+
+export async function getTaskOverride(
+  modelId: string,
+  dependencies: { repository?: ModelRepository } = {}
+): Promise<TaskOverride | null> {
+  const repository = dependencies.repository || new SupabaseModelRepository();
+  const overrides = await repository.listTaskOverrides();
+  return overrides.get(modelId) ?? null;
+}
+
+/**
+ * Create or replace a model's task override
+ * Throws TaskOverrideValidationError for an unknown task type or bad tags
+ */
+export async function setTaskOverride(
+  modelId: string,
+  override: TaskOverride,
+  dependencies: { repository?: ModelRepository } = {}
+): Promise<TaskOverride> {
+  const repository = dependencies.repository || new SupabaseModelRepository();
+  const normalized = normalizeTaskOverride(modelId, override);
+  await repository.setTaskOverride(modelId, normalized);
+  return normalized;
+}
+
+/**
+ * Remove a model's task override; the next sync reclassifies it
+ */
+export async function clearTaskOverride(
+  modelId: string,
+  dependencies: { repository?: ModelRepository } = {}
+): Promise<void> {
+  const repository = dependencies.repository || new SupabaseModelRepository();
+  await repository.clearTaskOverride(modelId);
+}
@@ -0,0 +1,30 @@
+// ============================================================================
+// SUPABASE ADMIN CLIENT
+// Service-role client for server-side services (sync, jobs, billing)
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+function getSupabaseUrl(): string {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (!url) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL is required in environment variables');
+  }
+  return url;
+}
+
+function getSupabaseServiceKey(): string {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is required in environment variables');
+  }
+  return key;
+}
+
+/**
+ * Create a Supabase client with the service role key
+ * Never expose this client to the browser
+ */
+export function createAdminClient(): SupabaseClient {
+  return createClient(getSupabaseUrl(), getSupabaseServiceKey());
+}
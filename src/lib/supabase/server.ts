@@ -0,0 +1,48 @@
+// ============================================================================
+// SUPABASE SERVER CLIENT
+// Anon-key client bound to the request's auth cookies, for finding the
+// signed-in user in server components and server actions
+// ============================================================================
+
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+function getSupabaseUrl(): string {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (!url) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL is required in environment variables');
+  }
+  return url;
+}
+
+function getSupabaseAnonKey(): string {
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!key) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_ANON_KEY is required in environment variables');
+  }
+  return key;
+}
+
+/**
+ * Create a Supabase client acting as the request's user
+ */
+export async function createSessionClient(): Promise<SupabaseClient> {
+  const cookieStore = await cookies();
+
+  return createServerClient(getSupabaseUrl(), getSupabaseAnonKey(), {
+    cookies: {
+      getAll: () => cookieStore.getAll(),
+      setAll: cookiesToSet => {
+        try {
+          for (const { name, value, options } of cookiesToSet) {
+            cookieStore.set(name, value, options);
+          }
+        } catch {
+          // Server components can't set cookies; the refreshed session is
+          // written by the next server action instead
+        }
+      },
+    },
+  });
+}
@@ -0,0 +1,53 @@
+-- ============================================================================
+-- GENERATIONS
+-- One row per inference job submitted to FAL AI
+-- ============================================================================
+
+create table if not exists public.generations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  model_id text not null references public.models (id),
+
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+
+  -- Input as submitted (after validation/defaults)
+  input jsonb not null default '{}'::jsonb,
+
+  -- FAL queue tracking
+  fal_request_id text,
+
+  -- Results
+  output jsonb,
+  output_urls text[] not null default '{}',
+  error text,
+
+  -- Billing snapshot taken from model_pricing at creation time
+  credit_cost integer not null default 0,
+  price_per_call numeric(12, 6),
+
+  -- Timing
+  created_at timestamptz not null default now(),
+  submitted_at timestamptz,
+  started_at timestamptz,
+  completed_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists generations_user_created_idx
+  on public.generations (user_id, created_at desc);
+
+create index if not exists generations_status_idx
+  on public.generations (status)
+  where status in ('queued', 'running');
+
+create unique index if not exists generations_fal_request_idx
+  on public.generations (fal_request_id)
+  where fal_request_id is not null;
+
+alter table public.generations enable row level security;
+
+-- Users can read their own history; writes go through the service role
+create policy "Users can view own generations"
+  on public.generations for select
+  using (auth.uid() = user_id);
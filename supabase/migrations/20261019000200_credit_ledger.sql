@@ -0,0 +1,446 @@
+-- ============================================================================
+-- CREDIT LEDGER
+-- Double-entry bookkeeping for user credits
+--
+-- Every movement of credits is a transaction with two or more entries whose
+-- amounts sum to zero. Each user has an "available" and a "held" account;
+-- system accounts are the counterparties for grants, purchases and revenue.
+-- All mutations go through the functions below, which lock the user's
+-- accounts so concurrent requests for the same user are serialized.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Tables
+-- ----------------------------------------------------------------------------
+
+create table if not exists public.credit_accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  kind text not null
+    check (kind in ('user_available', 'user_held', 'system_grants', 'system_purchases', 'system_revenue')),
+  balance bigint not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- User accounts can never go negative; system accounts are unbounded
+  constraint credit_accounts_user_balance_check
+    check (kind not like 'user_%' or balance >= 0),
+  constraint credit_accounts_owner_check
+    check ((kind like 'user_%') = (user_id is not null))
+);
+
+create unique index if not exists credit_accounts_user_kind_idx
+  on public.credit_accounts (user_id, kind)
+  where user_id is not null;
+
+create unique index if not exists credit_accounts_system_kind_idx
+  on public.credit_accounts (kind)
+  where user_id is null;
+
+insert into public.credit_accounts (kind)
+values ('system_grants'), ('system_purchases'), ('system_revenue')
+on conflict do nothing;
+
+create table if not exists public.credit_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type text not null
+    check (type in ('grant', 'purchase', 'hold', 'capture', 'release', 'refund')),
+  amount bigint not null check (amount > 0),
+  generation_id uuid references public.generations (id) on delete set null,
+  reference text,
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_transactions_user_created_idx
+  on public.credit_transactions (user_id, created_at desc);
+
+create unique index if not exists credit_transactions_reference_idx
+  on public.credit_transactions (type, reference)
+  where reference is not null;
+
+create table if not exists public.credit_entries (
+  id bigint generated always as identity primary key,
+  transaction_id uuid not null references public.credit_transactions (id) on delete cascade,
+  account_id uuid not null references public.credit_accounts (id),
+  amount bigint not null check (amount <> 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_entries_transaction_idx
+  on public.credit_entries (transaction_id);
+
+create index if not exists credit_entries_account_idx
+  on public.credit_entries (account_id);
+
+create table if not exists public.credit_holds (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  generation_id uuid references public.generations (id) on delete set null,
+  amount bigint not null check (amount > 0),
+  status text not null default 'open'
+    check (status in ('open', 'captured', 'released')),
+  hold_transaction_id uuid not null references public.credit_transactions (id),
+  settle_transaction_id uuid references public.credit_transactions (id),
+  captured_amount bigint,
+  created_at timestamptz not null default now(),
+  settled_at timestamptz
+);
+
+create index if not exists credit_holds_user_status_idx
+  on public.credit_holds (user_id, status);
+
+create unique index if not exists credit_holds_generation_open_idx
+  on public.credit_holds (generation_id)
+  where status = 'open' and generation_id is not null;
+
+alter table public.generations
+  add column if not exists credit_hold_id uuid references public.credit_holds (id);
+
+-- ----------------------------------------------------------------------------
+-- Invariant: entries of a transaction sum to zero (checked at commit)
+-- ----------------------------------------------------------------------------
+
+create or replace function public.credit_check_transaction_balanced()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_sum bigint;
+begin
+  select coalesce(sum(amount), 0) into v_sum
+  from public.credit_entries
+  where transaction_id = new.transaction_id;
+
+  if v_sum <> 0 then
+    raise exception 'Credit transaction % is unbalanced (sum %)', new.transaction_id, v_sum;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists credit_entries_balanced on public.credit_entries;
+create constraint trigger credit_entries_balanced
+  after insert on public.credit_entries
+  deferrable initially deferred
+  for each row execute function public.credit_check_transaction_balanced();
+
+-- ----------------------------------------------------------------------------
+-- Helpers
+-- ----------------------------------------------------------------------------
+
+-- Get (creating if needed) and lock a user's account
+create or replace function public.credit_lock_user_account(p_user_id uuid, p_kind text)
+returns public.credit_accounts
+language plpgsql
+as $$
+declare
+  v_account public.credit_accounts;
+begin
+  insert into public.credit_accounts (user_id, kind)
+  values (p_user_id, p_kind)
+  on conflict (user_id, kind) where user_id is not null do nothing;
+
+  select * into v_account
+  from public.credit_accounts
+  where user_id = p_user_id and kind = p_kind
+  for update;
+
+  return v_account;
+end;
+$$;
+
+create or replace function public.credit_system_account(p_kind text)
+returns uuid
+language sql
+stable
+as $$
+  select id from public.credit_accounts where user_id is null and kind = p_kind;
+$$;
+
+-- Move credits between two accounts as part of a transaction
+create or replace function public.credit_post(
+  p_transaction_id uuid,
+  p_from_account uuid,
+  p_to_account uuid,
+  p_amount bigint
+)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.credit_entries (transaction_id, account_id, amount)
+  values
+    (p_transaction_id, p_from_account, -p_amount),
+    (p_transaction_id, p_to_account, p_amount);
+
+  update public.credit_accounts
+  set balance = balance - p_amount, updated_at = now()
+  where id = p_from_account;
+
+  update public.credit_accounts
+  set balance = balance + p_amount, updated_at = now()
+  where id = p_to_account;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- Public API
+-- ----------------------------------------------------------------------------
+
+-- Add credits to a user (type = 'grant' or 'purchase')
+-- p_reference makes the call idempotent (e.g. a payment id)
+create or replace function public.credit_add(
+  p_user_id uuid,
+  p_amount bigint,
+  p_type text default 'grant',
+  p_reference text default null,
+  p_metadata jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_available public.credit_accounts;
+  v_transaction_id uuid;
+begin
+  if p_type not in ('grant', 'purchase') then
+    raise exception 'INVALID_CREDIT_TYPE: %', p_type;
+  end if;
+
+  v_available := public.credit_lock_user_account(p_user_id, 'user_available');
+
+  -- A concurrent call with the same reference waits here for the first to
+  -- commit, then gets its transaction back instead of a unique violation
+  insert into public.credit_transactions (user_id, type, amount, reference, metadata)
+  values (p_user_id, p_type, p_amount, p_reference, p_metadata)
+  on conflict (type, reference) where reference is not null do nothing
+  returning id into v_transaction_id;
+
+  if v_transaction_id is null then
+    select id into v_transaction_id
+    from public.credit_transactions
+    where type = p_type and reference = p_reference;
+
+    return v_transaction_id;
+  end if;
+
+  perform public.credit_post(
+    v_transaction_id,
+    public.credit_system_account(case p_type when 'grant' then 'system_grants' else 'system_purchases' end),
+    v_available.id,
+    p_amount
+  );
+
+  return v_transaction_id;
+end;
+$$;
+
+-- Reserve credits for a generation; fails with INSUFFICIENT_CREDITS
+create or replace function public.credit_place_hold(
+  p_user_id uuid,
+  p_amount bigint,
+  p_generation_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_available public.credit_accounts;
+  v_held public.credit_accounts;
+  v_transaction_id uuid;
+  v_hold_id uuid;
+begin
+  -- Lock order: available, then held (same in every function)
+  v_available := public.credit_lock_user_account(p_user_id, 'user_available');
+  v_held := public.credit_lock_user_account(p_user_id, 'user_held');
+
+  if v_available.balance < p_amount then
+    raise exception 'INSUFFICIENT_CREDITS: balance %, required %', v_available.balance, p_amount;
+  end if;
+
+  insert into public.credit_transactions (user_id, type, amount, generation_id)
+  values (p_user_id, 'hold', p_amount, p_generation_id)
+  returning id into v_transaction_id;
+
+  perform public.credit_post(v_transaction_id, v_available.id, v_held.id, p_amount);
+
+  insert into public.credit_holds (user_id, generation_id, amount, hold_transaction_id)
+  values (p_user_id, p_generation_id, p_amount, v_transaction_id)
+  returning id into v_hold_id;
+
+  if p_generation_id is not null then
+    update public.generations set credit_hold_id = v_hold_id where id = p_generation_id;
+  end if;
+
+  return v_hold_id;
+end;
+$$;
+
+-- Settle an open hold
+-- Captures p_amount (defaults to the full hold) and releases the remainder
+create or replace function public.credit_settle_hold(
+  p_hold_id uuid,
+  p_capture boolean,
+  p_amount bigint default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_hold public.credit_holds;
+  v_available public.credit_accounts;
+  v_held public.credit_accounts;
+  v_capture bigint;
+  v_transaction_id uuid;
+begin
+  select * into v_hold from public.credit_holds where id = p_hold_id;
+  if v_hold.id is null then
+    raise exception 'HOLD_NOT_FOUND: %', p_hold_id;
+  end if;
+
+  v_available := public.credit_lock_user_account(v_hold.user_id, 'user_available');
+  v_held := public.credit_lock_user_account(v_hold.user_id, 'user_held');
+
+  -- Re-read under lock
+  select * into v_hold from public.credit_holds where id = p_hold_id for update;
+  if v_hold.status <> 'open' then
+    raise exception 'HOLD_NOT_OPEN: % is %', p_hold_id, v_hold.status;
+  end if;
+
+  v_capture := case when p_capture then coalesce(p_amount, v_hold.amount) else 0 end;
+  if v_capture < 0 or v_capture > v_hold.amount then
+    raise exception 'INVALID_CAPTURE_AMOUNT: % of %', v_capture, v_hold.amount;
+  end if;
+
+  insert into public.credit_transactions (user_id, type, amount, generation_id)
+  values (
+    v_hold.user_id,
+    case when v_capture > 0 then 'capture' else 'release' end,
+    v_hold.amount,
+    v_hold.generation_id
+  )
+  returning id into v_transaction_id;
+
+  if v_capture > 0 then
+    perform public.credit_post(v_transaction_id, v_held.id, public.credit_system_account('system_revenue'), v_capture);
+  end if;
+  if v_hold.amount - v_capture > 0 then
+    perform public.credit_post(v_transaction_id, v_held.id, v_available.id, v_hold.amount - v_capture);
+  end if;
+
+  update public.credit_holds
+  set status = case when v_capture > 0 then 'captured' else 'released' end,
+      captured_amount = v_capture,
+      settle_transaction_id = v_transaction_id,
+      settled_at = now()
+  where id = p_hold_id;
+
+  return v_transaction_id;
+end;
+$$;
+
+-- Return captured credits to a user
+-- Refunds for a generation can't exceed what was captured for it
+create or replace function public.credit_refund(
+  p_user_id uuid,
+  p_amount bigint,
+  p_generation_id uuid default null,
+  p_reference text default null,
+  p_metadata jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_available public.credit_accounts;
+  v_transaction_id uuid;
+  v_captured bigint;
+  v_refunded bigint;
+begin
+  if p_generation_id is null then
+    raise exception 'REFUND_REQUIRES_GENERATION';
+  end if;
+
+  -- Serializes refunds for the user, so the totals below can't go stale
+  v_available := public.credit_lock_user_account(p_user_id, 'user_available');
+
+  if p_reference is not null then
+    select id into v_transaction_id
+    from public.credit_transactions
+    where type = 'refund' and reference = p_reference;
+
+    if v_transaction_id is not null then
+      return v_transaction_id;
+    end if;
+  end if;
+
+  select coalesce(sum(captured_amount), 0) into v_captured
+  from public.credit_holds
+  where generation_id = p_generation_id and user_id = p_user_id and status = 'captured';
+
+  select coalesce(sum(amount), 0) into v_refunded
+  from public.credit_transactions
+  where generation_id = p_generation_id and type = 'refund';
+
+  if p_amount > v_captured - v_refunded then
+    raise exception 'REFUND_EXCEEDS_CAPTURED: requested %, refundable %', p_amount, v_captured - v_refunded;
+  end if;
+
+  insert into public.credit_transactions (user_id, type, amount, generation_id, reference, metadata)
+  values (p_user_id, 'refund', p_amount, p_generation_id, p_reference, p_metadata)
+  returning id into v_transaction_id;
+
+  perform public.credit_post(
+    v_transaction_id,
+    public.credit_system_account('system_revenue'),
+    v_available.id,
+    p_amount
+  );
+
+  return v_transaction_id;
+end;
+$$;
+
+-- Current balances per user
+create or replace view public.credit_balances
+with (security_invoker = true) as
+select
+  user_id,
+  coalesce(sum(balance) filter (where kind = 'user_available'), 0) as available,
+  coalesce(sum(balance) filter (where kind = 'user_held'), 0) as held
+from public.credit_accounts
+where user_id is not null
+group by user_id;
+
+-- ----------------------------------------------------------------------------
+-- Access
+-- ----------------------------------------------------------------------------
+
+alter table public.credit_accounts enable row level security;
+alter table public.credit_transactions enable row level security;
+alter table public.credit_entries enable row level security;
+alter table public.credit_holds enable row level security;
+
+create policy "Users can view own credit accounts"
+  on public.credit_accounts for select
+  using (auth.uid() = user_id);
+
+create policy "Users can view own credit transactions"
+  on public.credit_transactions for select
+  using (auth.uid() = user_id);
+
+revoke execute on function public.credit_add(uuid, bigint, text, text, jsonb) from public, anon, authenticated;
+revoke execute on function public.credit_place_hold(uuid, bigint, uuid) from public, anon, authenticated;
+revoke execute on function public.credit_settle_hold(uuid, boolean, bigint) from public, anon, authenticated;
+revoke execute on function public.credit_refund(uuid, bigint, uuid, text, jsonb) from public, anon, authenticated;
@@ -0,0 +1,42 @@
+-- ============================================================================
+-- MODEL CATALOG
+-- Full-text search over synced models and a flattened view for browsing
+-- ============================================================================
+
+alter table public.models
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(display_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(id, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) stored;
+
+create index if not exists models_search_vector_idx
+  on public.models using gin (search_vector);
+
+create index if not exists models_task_type_idx on public.models (task_type);
+create index if not exists models_category_idx on public.models (category);
+
+-- One row per model with its pricing, for filtering and sorting by price
+create or replace view public.model_catalog
+with (security_invoker = true) as
+select
+  m.id,
+  m.provider_id,
+  m.name,
+  m.display_name,
+  m.description,
+  m.task_type,
+  m.category,
+  m.is_active,
+  m.search_vector,
+  m.created_at,
+  m.updated_at,
+  p.price_per_call,
+  p.min_price,
+  p.max_price,
+  p.pricing_type,
+  p.credit_cost,
+  p.pricing_details
+from public.models m
+left join public.model_pricing p on p.model_id = m.id;
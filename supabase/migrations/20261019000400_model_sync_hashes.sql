@@ -0,0 +1,13 @@
+-- ============================================================================
+-- MODEL SYNC HASHES
+-- Content hashes written by syncFalModels so unchanged models can be skipped
+-- ============================================================================
+
+alter table public.models
+  add column if not exists content_hash text,
+  add column if not exists sync_hashes jsonb;
+
+comment on column public.models.content_hash is
+  'Hash of sync_hashes; changes whenever the model, its parameters or its pricing change';
+comment on column public.models.sync_hashes is
+  'Per-table content hashes from the last sync: { model, parameters, pricing }';
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- MODEL REMOVAL TRACKING
+-- Set by syncFalModels when a model disappears from the FAL catalog
+-- ============================================================================
+
+alter table public.models
+  add column if not exists removed_at timestamptz;
+
+create index if not exists models_removed_at_idx
+  on public.models (removed_at)
+  where removed_at is not null;
+
+-- Delete a model with its parameters and pricing in one transaction
+-- If the model is still referenced (e.g. by generations) nothing is deleted
+create or replace function public.delete_model(p_model_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.model_parameters where model_id = p_model_id;
+  delete from public.model_pricing where model_id = p_model_id;
+  delete from public.models where id = p_model_id;
+end;
+$$;
+
+revoke execute on function public.delete_model(text) from public, anon, authenticated;
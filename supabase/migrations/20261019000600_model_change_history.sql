@@ -0,0 +1,32 @@
+-- ============================================================================
+-- MODEL CHANGE HISTORY
+-- One row per model changed by a sync, with a structured diff
+-- ============================================================================
+
+create table if not exists public.model_change_history (
+  id bigint generated always as identity primary key,
+  model_id text not null,
+  change_type text not null
+    check (change_type in ('added', 'updated', 'removed', 'reactivated')),
+
+  -- { model: { field: { old, new } },
+  --   parameters: { added: [...], removed: [...], changed: [{ name, fields }] },
+  --   pricing: { field: { old, new } } }
+  changes jsonb not null default '{}'::jsonb,
+
+  -- Denormalized for quick "why did my cost change" lookups
+  old_price_per_call numeric(12, 6),
+  new_price_per_call numeric(12, 6),
+  old_credit_cost integer,
+  new_credit_cost integer,
+
+  sync_started_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+-- No FK to models: history must survive purged models
+create index if not exists model_change_history_model_idx
+  on public.model_change_history (model_id, created_at desc);
+
+create index if not exists model_change_history_sync_idx
+  on public.model_change_history (sync_started_at);
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- BULK SYNC SUPPORT
+-- Constraints and helpers for chunked upserts in syncFalModels
+-- ============================================================================
+
+-- Upserts on model_pricing are keyed on model_id; drop duplicates first
+delete from public.model_pricing a
+using public.model_pricing b
+where a.model_id = b.model_id
+  and a.ctid < b.ctid;
+
+create unique index if not exists model_pricing_model_id_key
+  on public.model_pricing (model_id);
+
+create index if not exists model_parameters_model_id_idx
+  on public.model_parameters (model_id);
+
+-- Write sync hashes for many models in one round trip
+-- p_rows: [{ "id": "...", "content_hash": "...", "sync_hashes": { ... } }]
+create or replace function public.set_model_sync_hashes(p_rows jsonb)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with updated as (
+    update public.models m
+    set content_hash = r.content_hash,
+        sync_hashes = r.sync_hashes
+    from jsonb_to_recordset(p_rows) as r(id text, content_hash text, sync_hashes jsonb)
+    where m.id = r.id
+    returning 1
+  )
+  select count(*)::integer from updated;
+$$;
+
+revoke execute on function public.set_model_sync_hashes(jsonb) from public, anon, authenticated;
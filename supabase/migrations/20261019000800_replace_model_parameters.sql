@@ -0,0 +1,89 @@
+-- ============================================================================
+-- ATOMIC PARAMETER REPLACEMENT
+-- Replaces a model's parameter set in one transaction so readers always see
+-- either the old or the new complete set, never an empty one
+-- ============================================================================
+
+-- p_sets: [{ "model_id": "...", "parameters": [{ parameter_name, ... }] }]
+-- Each model runs in its own subtransaction: a failing model keeps its old
+-- parameters and is reported in the result, the others are still replaced
+create or replace function public.replace_model_parameters(p_sets jsonb)
+returns table (model_id text, inserted integer, error text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_set jsonb;
+  v_model_id text;
+  v_count integer;
+begin
+  for v_set in select value from jsonb_array_elements(p_sets) loop
+    v_model_id := v_set->>'model_id';
+
+    begin
+      delete from public.model_parameters p
+      where p.model_id = v_model_id;
+
+      insert into public.model_parameters (
+        model_id,
+        parameter_name,
+        parameter_type,
+        is_required,
+        default_value,
+        min_value,
+        max_value,
+        allowed_values,
+        ui_label,
+        ui_placeholder,
+        ui_help_text,
+        ui_order,
+        ui_group
+      )
+      select
+        v_model_id,
+        r.parameter_name,
+        r.parameter_type,
+        coalesce(r.is_required, false),
+        r.default_value,
+        r.min_value,
+        r.max_value,
+        r.allowed_values,
+        r.ui_label,
+        r.ui_placeholder,
+        r.ui_help_text,
+        r.ui_order,
+        r.ui_group
+      from jsonb_to_recordset(coalesce(v_set->'parameters', '[]'::jsonb)) as r (
+        parameter_name text,
+        parameter_type text,
+        is_required boolean,
+        default_value text,
+        min_value numeric,
+        max_value numeric,
+        allowed_values jsonb,
+        ui_label text,
+        ui_placeholder text,
+        ui_help_text text,
+        ui_order integer,
+        ui_group text
+      );
+
+      get diagnostics v_count = row_count;
+
+      model_id := v_model_id;
+      inserted := v_count;
+      error := null;
+      return next;
+    exception when others then
+      model_id := v_model_id;
+      inserted := 0;
+      error := sqlerrm;
+      return next;
+    end;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.replace_model_parameters(jsonb) from public, anon, authenticated;
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- UNKNOWN MODEL PRICING
+-- Models the FAL pricing API doesn't know are stored with pricing_type
+-- 'unknown' and no price or credit cost, instead of as free
+-- ============================================================================
+
+alter table public.model_pricing
+  alter column price_per_call drop not null,
+  alter column credit_cost drop not null;
+
+alter table public.model_pricing
+  drop constraint if exists model_pricing_pricing_type_check;
+
+alter table public.model_pricing
+  add constraint model_pricing_pricing_type_check
+  check (pricing_type in ('free', 'fixed', 'variable', 'unknown'));
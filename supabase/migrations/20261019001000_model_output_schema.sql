@@ -0,0 +1,11 @@
+-- ============================================================================
+-- MODEL OUTPUT SCHEMAS
+-- Result schema per model from its OpenAPI document, and each generation's
+-- output normalized to a list of media files
+-- ============================================================================
+
+alter table public.models
+  add column if not exists output_schema jsonb not null default '{}'::jsonb;
+
+alter table public.generations
+  add column if not exists output_media jsonb not null default '[]'::jsonb;
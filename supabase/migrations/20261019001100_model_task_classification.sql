@@ -0,0 +1,51 @@
+-- ============================================================================
+-- MODEL TASK CLASSIFICATION
+-- Task tags (text-to-image, upscaling...) per model, and admin overrides
+-- the sync applies on top of the classifier
+-- ============================================================================
+
+alter table public.models
+  add column if not exists task_tags text[] not null default '{}';
+
+create index if not exists models_task_tags_idx
+  on public.models using gin (task_tags);
+
+-- No FK to models: overrides must survive purged models
+create table if not exists public.model_task_overrides (
+  model_id text primary key,
+  -- null keeps the classified value
+  task_type text
+    check (task_type in ('IMAGE', 'VIDEO', 'AUDIO', 'TEXT', 'MULTIMODAL')),
+  task_tags text[],
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Service role only
+alter table public.model_task_overrides enable row level security;
+
+-- New columns can only be appended to an existing view
+create or replace view public.model_catalog
+with (security_invoker = true) as
+select
+  m.id,
+  m.provider_id,
+  m.name,
+  m.display_name,
+  m.description,
+  m.task_type,
+  m.category,
+  m.is_active,
+  m.search_vector,
+  m.created_at,
+  m.updated_at,
+  p.price_per_call,
+  p.min_price,
+  p.max_price,
+  p.pricing_type,
+  p.credit_cost,
+  p.pricing_details,
+  m.task_tags
+from public.models m
+left join public.model_pricing p on p.model_id = m.id;
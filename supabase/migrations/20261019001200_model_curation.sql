@@ -0,0 +1,76 @@
+-- ============================================================================
+-- MODEL CURATION
+-- Admin choices about which synced models end users see and how: allow or
+-- block, display name and description, featured order, parameter defaults,
+-- hidden parameters and price markup. Kept out of the synced tables so a
+-- sync never overwrites them
+-- ============================================================================
+
+-- Single row: whether uncurated models are shown
+create table if not exists public.model_curation_settings (
+  id boolean primary key default true check (id),
+  -- allowlist: only allowed models are exposed
+  -- blocklist: every active model is exposed unless blocked
+  exposure_mode text not null default 'allowlist'
+    check (exposure_mode in ('allowlist', 'blocklist')),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.model_curation_settings (id) values (true)
+on conflict (id) do nothing;
+
+-- No FK to models: curation must survive purged models
+create table if not exists public.model_curations (
+  model_id text primary key,
+  -- null follows the exposure mode
+  status text check (status in ('allowed', 'blocked')),
+  -- null keeps the synced value
+  display_name text,
+  description text,
+  -- Featured models sort first, lowest rank first; null is not featured
+  featured_rank integer check (featured_rank >= 0),
+  -- Replace the model's parameter defaults
+  default_params jsonb not null default '{}'::jsonb,
+  -- Not shown to users; always sent with their default
+  hidden_params text[] not null default '{}',
+  -- Multiplies the USD price before it's converted to credits
+  price_markup numeric(6, 3) not null default 1 check (price_markup > 0),
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists model_curations_featured_idx
+  on public.model_curations (featured_rank)
+  where featured_rank is not null;
+
+-- Service role only
+alter table public.model_curation_settings enable row level security;
+alter table public.model_curations enable row level security;
+
+-- Models end users can see and run, with curated names applied
+create or replace view public.available_models
+with (security_invoker = true) as
+select
+  c.id,
+  c.provider_id,
+  coalesce(mc.display_name, c.display_name) as display_name,
+  coalesce(mc.description, c.description) as description,
+  c.task_type,
+  c.task_tags,
+  c.category,
+  c.updated_at,
+  c.price_per_call,
+  c.min_price,
+  c.max_price,
+  c.pricing_type,
+  mc.featured_rank,
+  coalesce(mc.price_markup, 1) as price_markup
+from public.model_catalog c
+cross join public.model_curation_settings s
+left join public.model_curations mc on mc.model_id = c.id
+where c.is_active
+  and (
+    mc.status = 'allowed'
+    or (s.exposure_mode = 'blocklist' and mc.status is distinct from 'blocked')
+  );
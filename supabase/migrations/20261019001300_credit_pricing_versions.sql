@@ -0,0 +1,115 @@
+-- ============================================================================
+-- CREDIT PRICING VERSIONS
+-- Every credit_pricing_config row is a version: drafts wait for their
+-- effective date, exactly one is active, superseded ones keep their dates.
+-- Versions carry margin multipliers per task type and per model and minimum
+-- credit floors alongside the USD rate
+-- ============================================================================
+
+alter table public.credit_pricing_config
+  add column if not exists version bigint generated always as identity,
+  add column if not exists effective_from timestamptz not null default now(),
+  add column if not exists effective_until timestamptz,
+  -- { "VIDEO": 1.2 }
+  add column if not exists task_type_multipliers jsonb not null default '{}'::jsonb,
+  -- { "fal-ai/flux/dev": 1.5 }; replaces the task type multiplier
+  add column if not exists model_multipliers jsonb not null default '{}'::jsonb,
+  add column if not exists min_credits integer not null default 1,
+  -- { "VIDEO": 5 }; replaces min_credits
+  add column if not exists task_type_min_credits jsonb not null default '{}'::jsonb,
+  add column if not exists note text;
+
+alter table public.credit_pricing_config
+  drop constraint if exists credit_pricing_config_version_key,
+  add constraint credit_pricing_config_version_key unique (version),
+  drop constraint if exists credit_pricing_config_rate_check,
+  add constraint credit_pricing_config_rate_check check (cost_per_credit_usd > 0),
+  drop constraint if exists credit_pricing_config_min_credits_check,
+  add constraint credit_pricing_config_min_credits_check check (min_credits >= 1);
+
+-- Keep the newest of any duplicate active rows so the index can be built
+update public.credit_pricing_config c
+set is_active = false, effective_until = now()
+where c.is_active
+  and c.version < (select max(version) from public.credit_pricing_config where is_active);
+
+create unique index if not exists credit_pricing_config_one_active_idx
+  on public.credit_pricing_config (is_active)
+  where is_active;
+
+-- At most one active version is enforced by the index; at least one is
+-- checked at commit, so a switch can retire the old version first
+create or replace function public.check_active_credit_pricing_config()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if exists (select 1 from public.credit_pricing_config)
+    and not exists (select 1 from public.credit_pricing_config where is_active) then
+    raise exception 'credit_pricing_config must have exactly one active version';
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists credit_pricing_config_one_active on public.credit_pricing_config;
+create constraint trigger credit_pricing_config_one_active
+  after insert or update or delete on public.credit_pricing_config
+  deferrable initially deferred
+  for each row execute function public.check_active_credit_pricing_config();
+
+-- Retire the active version and activate p_version in one transaction
+create or replace function public.activate_credit_pricing_config(p_version bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  -- Serializes concurrent activations
+  lock table public.credit_pricing_config in share row exclusive mode;
+
+  if not exists (
+    select 1 from public.credit_pricing_config
+    where version = p_version and not is_active and effective_until is null
+  ) then
+    raise exception 'credit pricing version % is not a draft', p_version;
+  end if;
+
+  update public.credit_pricing_config
+  set is_active = false, effective_until = v_now
+  where is_active;
+
+  update public.credit_pricing_config
+  set is_active = true, effective_from = v_now
+  where version = p_version;
+end;
+$$;
+
+revoke execute on function public.activate_credit_pricing_config(bigint) from public, anon, authenticated;
+
+-- Write recomputed credit costs for many models in one round trip
+-- An upsert would check the partial rows against model_pricing's not null
+-- columns before resolving the conflict, so this updates existing rows only
+-- p_rows: [{ "model_id": "...", "credit_cost": 12, "last_updated": "..." }]
+create or replace function public.set_model_credit_costs(p_rows jsonb)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with updated as (
+    update public.model_pricing p
+    set credit_cost = r.credit_cost,
+        last_updated = r.last_updated
+    from jsonb_to_recordset(p_rows) as r(model_id text, credit_cost integer, last_updated timestamptz)
+    where p.model_id = r.model_id
+    returning 1
+  )
+  select count(*)::integer from updated;
+$$;
+
+revoke execute on function public.set_model_credit_costs(jsonb) from public, anon, authenticated;